@@ -0,0 +1,6 @@
+import { startStdioServer } from './dist/server/stdio.js';
+
+startStdioServer().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,48 +1,70 @@
-const fs = require('fs');
-const path = require('path');
-const https = require('https');
+import fs from 'fs';
+import path from 'path';
+import https from 'https';
+import { fileURLToPath } from 'url';
 
 const MODELS = {
-  'all-MiniLM-L6-v2.onnx': 'https://huggingface.co/sentence-transformers/all-MiniLM-L6-v2/resolve/main/model.onnx',
+  'all-MiniLM-L6-v2.onnx': 'https://huggingface.co/sentence-transformers/all-MiniLM-L6-v2/resolve/main/onnx/model.onnx',
   'bert-base-uncased.json': 'https://huggingface.co/bert-base-uncased/resolve/main/tokenizer.json'
 };
 
-const assetsDir = path.join(__dirname, '..', 'assets');
+const assetsDir = process.env.SEARCH_LOCAL_FILES_MODELS
+  ? path.resolve(process.env.SEARCH_LOCAL_FILES_MODELS)
+  : path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'assets');
 
 // Create assets directory if it doesn't exist
 if (!fs.existsSync(assetsDir)) {
-  fs.mkdirSync(assetsDir);
+  fs.mkdirSync(assetsDir, { recursive: true });
 }
 
-// Download function
-function downloadFile(url, dest) {
+// Download function; Hugging Face redirects file downloads to its CDN
+function downloadFile(url, dest, redirects = 5) {
   return new Promise((resolve, reject) => {
-    const file = fs.createWriteStream(dest);
     https.get(url, response => {
+      if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+        response.resume();
+        if (redirects === 0) {
+          reject(new Error(`Too many redirects for ${url}`));
+          return;
+        }
+        downloadFile(new URL(response.headers.location, url).toString(), dest, redirects - 1).then(resolve, reject);
+        return;
+      }
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error(`Downloading ${url} failed: HTTP ${response.statusCode}`));
+        return;
+      }
+      // Written next to the destination so an interrupted download is not mistaken for the model
+      const partial = `${dest}.part`;
+      const file = fs.createWriteStream(partial);
       response.pipe(file);
       file.on('finish', () => {
-        file.close();
-        resolve();
+        file.close(() => fs.rename(partial, dest, error => error ? reject(error) : resolve()));
       });
-    }).on('error', err => {
-      fs.unlink(dest, () => {});
-      reject(err);
-    });
+      file.on('error', err => {
+        fs.unlink(partial, () => {});
+        reject(err);
+      });
+    }).on('error', reject);
   });
 }
 
 // Download all models
 async function downloadModels() {
-  console.log('Downloading model files...');
-  
+  console.log(`Downloading model files to ${assetsDir}...`);
+
   for (const [filename, url] of Object.entries(MODELS)) {
     const dest = path.join(assetsDir, filename);
     console.log(`Downloading ${filename}...`);
     await downloadFile(url, dest);
     console.log(`Downloaded ${filename}`);
   }
-  
+
   console.log('All models downloaded successfully!');
 }
 
-downloadModels().catch(console.error); 
\ No newline at end of file
+downloadModels().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,3 +1,7 @@
-import { startServer } from './dist/server/index.js';
+import { startServer, stopOnSignals } from './dist/server/index.js';
 
-startServer().catch(console.error); 
\ No newline at end of file
+stopOnSignals();
+startServer().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
@@ -26,6 +26,3 @@ export async function onExtensionUnload() {
     console.error("Failed to stop server:", error);
   }
 }
-
-// Start the server when the extension loads
-serverManager.start().catch(console.error); 
\ No newline at end of file
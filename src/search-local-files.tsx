@@ -1,25 +1,137 @@
-import { ActionPanel, List, Action, showToast, Toast, Icon, Color, Detail } from "@raycast/api";
-import { useState, useEffect } from "react";
+import { ActionPanel, List, Action, showToast, Toast, Icon, Color, Detail, open } from "@raycast/api";
+import { useState, useEffect, useRef } from "react";
 import fetch from "node-fetch";
+import type { Response } from "node-fetch";
 import { generateEnhancedContext, extractKeywordsFromQuery, generateAnswerFromDocument } from "./llm-utils";
+import { readToken } from "./services/auth/index.js";
+import { splitVirtualPath } from "./services/archives/index.js";
+import { readRuntimeFile, isProcessRunning, isSameServer } from "./services/runtime/index.js";
+import type { ServerIdentity } from "./services/runtime/index.js";
 import fs from "fs";
 import path from "path";
 
+interface SnippetLocation {
+  page?: number;
+  sheet?: string;
+  row?: number;
+  columns?: string[];
+  cells?: string[];
+  header?: string[];
+  cell?: string;
+  slide?: number;
+  slideTitle?: string;
+  notes?: boolean;
+}
+
+interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  createdAt?: number;
+  modifiedAt?: number;
+  pageCount?: number;
+  slideCount?: number;
+  sheetCount?: number;
+  sheetNames?: string[];
+  width?: number;
+  height?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  takenAt?: number;
+  latitude?: number;
+  longitude?: number;
+  from?: string;
+  to?: string[];
+  sentAt?: number;
+}
+
+// What each ranking signal added to a result's score
+interface ScoreBreakdown {
+  filename: number;
+  path: number;
+  metadata: number;
+  content: number;
+  recency: number;
+  semantic?: number; // Similarity in meaning, for hybrid searches
+}
+
+const SCORE_SIGNAL_LABELS: Record<keyof ScoreBreakdown, string> = {
+  filename: "Name",
+  content: "Content",
+  path: "Path",
+  metadata: "Metadata",
+  recency: "Recent",
+  semantic: "Meaning"
+};
+
+// The signals behind a score, largest first, e.g. "Name 41% · Content 12%"
+function formatScoreBreakdown(breakdown: ScoreBreakdown | undefined): string | null {
+  if (!breakdown) {
+    return null;
+  }
+  const parts = (Object.keys(SCORE_SIGNAL_LABELS) as (keyof ScoreBreakdown)[])
+    .filter(signal => (breakdown[signal] ?? 0) >= 0.005)
+    .sort((a, b) => (breakdown[b] ?? 0) - (breakdown[a] ?? 0))
+    .map(signal => `${SCORE_SIGNAL_LABELS[signal]} ${Math.round((breakdown[signal] ?? 0) * 100)}%`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
 interface SearchResult {
   path: string;
   filename: string;
   lastModified: number;
   size: number;
+  root?: string;
+  archive?: string;
+  metadata?: DocumentMetadata;
   score: number;
-  matchType: 'exact' | 'fuzzy' | 'path' | 'content';
-  snippets?: { text: string; score: number; position: number; }[];
+  matchType: 'exact' | 'fuzzy' | 'path' | 'metadata' | 'content' | 'filter' | 'semantic';
+  matchedFields?: string[];
+  scoreBreakdown?: ScoreBreakdown;
+  snippets?: { text: string; score: number; position: number; location?: SnippetLocation; }[];
   boosted?: boolean;
   originalScore?: number;
   boostAmount?: number;
 }
 
+// Match counts by extension, folder, date, size and root, each with the
+// query filter that narrows a search to it
+interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  filter: string;
+}
+
+interface SearchFacets {
+  ext: FacetValue[];
+  folder: FacetValue[];
+  modified: FacetValue[];
+  size: FacetValue[];
+  root: FacetValue[];
+}
+
+const FACET_SECTIONS: { field: keyof SearchFacets; title: string }[] = [
+  { field: "ext", title: "File Type" },
+  { field: "modified", title: "Modified" },
+  { field: "size", title: "Size" },
+  { field: "folder", title: "Folder" },
+  { field: "root", title: "Location" }
+];
+
+// keyword matches words only; hybrid also matches by meaning, on the server's
+// local embedding model
+type SearchMode = 'keyword' | 'hybrid' | 'semantic';
+
 interface SearchResponse {
   results: SearchResult[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  facets: SearchFacets;
+  mode: SearchMode; // Mode the server used, keyword when it has no embedding model
   stats: {
     totalResults: number;
     searchTime: number;
@@ -29,8 +141,95 @@ interface SearchResponse {
   };
 }
 
-const SERVER_PORT = 49152;
-const SERVER_URL = `http://localhost:${SERVER_PORT}`;
+// How long to wait for /health when looking for the server
+const DISCOVERY_TIMEOUT_MS = 2000;
+
+// Address of the running server, null until it is found
+let serverUrl: string | null = null;
+
+/**
+ * Find the running server through the runtime file it writes on start, and
+ * check with /health that the process on that port is the one that wrote it,
+ * not a server that has since exited or another program on a reused port.
+ */
+async function discoverServer(): Promise<string | null> {
+  serverUrl = null;
+  const runtime = readRuntimeFile();
+  if (!runtime || !isProcessRunning(runtime.pid)) {
+    return null;
+  }
+  const url = `http://127.0.0.1:${runtime.port}`;
+  try {
+    const response = await fetch(`${url}/health`, { signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+    const health = response.ok ? await response.json() as { server?: ServerIdentity } : null;
+    if (isSameServer(runtime, health?.server)) {
+      serverUrl = url;
+    }
+  } catch (error) {
+    console.error('Server discovery failed:', error);
+  }
+  return serverUrl;
+}
+
+// The server only answers requests carrying the token it wrote on first start
+function serverHeaders(): Record<string, string> {
+  const token = readToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+/**
+ * Send a request to the server, finding it first if needed. A server that
+ * stopped answering may have been restarted on another port, so the request
+ * is retried once at wherever the runtime file now points.
+ */
+async function serverFetch(route: string, init: { method?: string; body?: string } = {}): Promise<Response> {
+  const url = serverUrl ?? await discoverServer();
+  if (!url) {
+    throw new Error("The search server is not running");
+  }
+  try {
+    return await fetch(`${url}${route}`, { ...init, headers: serverHeaders() });
+  } catch (error) {
+    const current = await discoverServer();
+    if (!current) {
+      throw new Error("The search server is not running");
+    }
+    if (current === url) {
+      throw error;
+    }
+    return fetch(`${current}${route}`, { ...init, headers: serverHeaders() });
+  }
+}
+
+// Results fetched per page as the list is scrolled
+const PAGE_SIZE = 20;
+
+async function fetchSearchPage(query: string, offset: number, mode: SearchMode = 'keyword'): Promise<SearchResponse> {
+  const response = await serverFetch('/search', {
+    method: 'POST',
+    body: JSON.stringify({ 
+      query,
+      mode,
+      limit: PAGE_SIZE,
+      offset,
+      options: {
+        snippetContextSize: 500, // Increased context size for LLM
+        maxSnippets: 3 // Limit to 3 snippets per result for cleaner display
+      }
+    })
+  });
+
+  if (!response.ok) {
+    // The server explains queries it cannot read, e.g. an invalid size filter
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error || `Search failed: ${response.statusText}`);
+  }
+
+  return await response.json() as SearchResponse;
+}
 
 function formatFileSize(bytes: number): string {
   const units = ['B', 'KB', 'MB', 'GB'];
@@ -47,6 +246,59 @@ function formatDate(timestamp: number): string {
   return new Date(timestamp).toLocaleString();
 }
 
+// Page, slide or sheet count of a document, e.g. "12 pages" or "3 sheets (Q1, Q2, Q3)"
+function formatDocumentLength(metadata?: DocumentMetadata): { title: string; text: string } | null {
+  if (metadata?.pageCount !== undefined) {
+    return { title: "Pages", text: metadata.pageCount.toString() };
+  }
+  if (metadata?.slideCount !== undefined) {
+    return { title: "Slides", text: metadata.slideCount.toString() };
+  }
+  if (metadata?.sheetCount !== undefined) {
+    const names = metadata.sheetNames?.length ? ` (${metadata.sheetNames.join(', ')})` : '';
+    return { title: "Sheets", text: `${metadata.sheetCount}${names}` };
+  }
+  return null;
+}
+
+function formatCamera(metadata?: DocumentMetadata): string | null {
+  const make = metadata?.cameraMake;
+  const model = metadata?.cameraModel;
+  if (!make && !model) {
+    return null;
+  }
+  // Models usually repeat the make, e.g. "Canon" + "Canon EOS R6"
+  if (make && model) {
+    return model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`;
+  }
+  return (make || model) as string;
+}
+
+// Files inside archives have virtual paths such as bundle.zip!/q3.pdf; this is the archive on disk
+function getArchiveFilePath(item: SearchResult): string {
+  return splitVirtualPath(item.path).filePath;
+}
+
+async function extractAndOpen(item: SearchResult): Promise<void> {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Extracting file..." });
+  try {
+    const response = await serverFetch('/extract', {
+      method: 'POST',
+      body: JSON.stringify({ path: item.path })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to extract file: ${response.statusText}`);
+    }
+    const { path: extractedPath } = await response.json() as { path: string };
+    await open(extractedPath);
+    toast.hide();
+  } catch (error) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Extraction failed";
+    toast.message = error instanceof Error ? error.message : String(error);
+  }
+}
+
 function getMatchTypeIcon(matchType: SearchResult['matchType']): Icon {
   switch (matchType) {
     case 'exact':
@@ -55,8 +307,14 @@ function getMatchTypeIcon(matchType: SearchResult['matchType']): Icon {
       return Icon.MagnifyingGlass;
     case 'path':
       return Icon.Folder;
+    case 'metadata':
+      return Icon.Tag;
     case 'content':
       return Icon.Document;
+    case 'filter':
+      return Icon.Filter;
+    case 'semantic':
+      return Icon.LightBulb;
   }
 }
 
@@ -68,11 +326,31 @@ function getMatchTypeLabel(matchType: SearchResult['matchType']): string {
       return 'Similar Match';
     case 'path':
       return 'Path Match';
+    case 'metadata':
+      return 'Metadata Match';
     case 'content':
       return 'Content Match';
+    case 'filter':
+      return 'Filter Match';
+    case 'semantic':
+      return 'Meaning Match';
   }
 }
 
+// Quoted phrases, exclusions, OR and field filters such as ext:pdf
+function hasQueryOperators(query: string): boolean {
+  return /"|(^|\s)-\S|\sOR\s|\b(name|path|ext|modified|size|in|title|author|subject|keywords|from|to|date):/.test(query);
+}
+
+// Questions are searched by meaning rather than by keyword
+function isNaturalLanguageQuery(text: string): boolean {
+  return !hasQueryOperators(text) && // Written in the search syntax
+    text.trim().length > 15 && // Longer than typical keyword search
+    (text.includes(" ") && // Has spaces
+    (text.includes("?") || // Has question mark
+     /^(what|how|when|where|who|why|can|does|is|are|will|should)/i.test(text.trim()))); // Starts with question word
+}
+
 function getFileIcon(filename: string): Icon {
   const ext = filename.split('.').pop()?.toLowerCase() || '';
   switch (ext) {
@@ -84,6 +362,9 @@ function getFileIcon(filename: string): Icon {
     case 'txt':
     case 'md':
       return Icon.Text;
+    case 'eml':
+    case 'mbox':
+      return Icon.Envelope;
     case 'jpg':
     case 'jpeg':
     case 'png':
@@ -113,6 +394,41 @@ function highlightMatchingTerms(text: string, query?: string): string {
   return highlightedText;
 }
 
+// Describe where a snippet sits in its document, e.g. "p. 12", "Slide 7" or "Sheet 'Q3', row 14, cell C14"
+function formatSnippetLocation(location?: SnippetLocation): string | null {
+  if (!location) {
+    return null;
+  }
+  if (location.page !== undefined) {
+    return `p. ${location.page}`;
+  }
+  if (location.slide !== undefined) {
+    const label = location.slideTitle ? `Slide ${location.slide}: ${location.slideTitle}` : `Slide ${location.slide}`;
+    return location.notes ? `${label} (speaker notes)` : label;
+  }
+  if (location.sheet === undefined) {
+    return null;
+  }
+  const parts = [`Sheet '${location.sheet}'`];
+  if (location.row !== undefined) parts.push(`row ${location.row}`);
+  if (location.cell) parts.push(`cell ${location.cell}`);
+  return parts.join(', ');
+}
+
+// Render a matching spreadsheet row as a one-row markdown table under its header
+function formatRowTable(location?: SnippetLocation): string | null {
+  if (!location?.cells || !location.columns || location.cells.length === 0) {
+    return null;
+  }
+  const escapeCell = (value: string) => value.replace(/\|/g, '\\|');
+  const headings = location.columns.map((column, index) => escapeCell(location.header?.[index] || column));
+  return [
+    `| ${headings.join(' | ')} |`,
+    `| ${headings.map(() => '---').join(' | ')} |`,
+    `| ${location.cells.map(escapeCell).join(' | ')} |`
+  ].join('\n');
+}
+
 function formatContentPreview(result: SearchResult | null, query?: string, llmContext?: string): string {
   if (!result) {
     if (!query || query.trim().length < 2) {
@@ -147,7 +463,8 @@ function formatContentPreview(result: SearchResult | null, query?: string, llmCo
       
       // Show the search query in a monospace code block at the top
       const displayQuery = query?.trim() || 'search match';
-      sections.push(`\`${displayQuery}\``);
+      const locationLabel = formatSnippetLocation(snippet.location);
+      sections.push(locationLabel ? `\`${displayQuery}\` · ${locationLabel}` : `\`${displayQuery}\``);
       
       // Then show the entire snippet with highlighted terms
       let highlightedText = snippet.text.trim();
@@ -165,6 +482,11 @@ function formatContentPreview(result: SearchResult | null, query?: string, llmCo
       // Add the snippet text in a blockquote for a grey background effect
       // Use a single blockquote for the entire snippet
       sections.push(`> ${highlightedText.replace(/\n/g, '\n> ')}`);
+
+      const rowTable = formatRowTable(snippet.location);
+      if (rowTable) {
+        sections.push(`\n${rowTable}`);
+      }
     });
   } else {
     // For DOCX files that might have content but no snippets
@@ -229,9 +551,10 @@ function formatContentPreview(result: SearchResult | null, query?: string, llmCo
   return sections.join('\n');
 }
 
+// Scores combine several signals, so a strong content-only match sits around 0.3
 function getScoreColor(score: number): Color {
-  if (score > 0.8) return Color.Green;
-  if (score > 0.5) return Color.Orange;
+  if (score > 0.6) return Color.Green;
+  if (score > 0.3) return Color.Orange;
   return Color.Red;
 }
 
@@ -249,21 +572,39 @@ export default function Command() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
-  const [fileTypeFilter, setFileTypeFilter] = useState<string | null>(null);
+  const [facetFilter, setFacetFilter] = useState<string | null>(null); // Query filter picked in the dropdown, e.g. ext:pdf
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [llmContext, setLlmContext] = useState<string | null>(null);
   const [isLoadingLlm, setIsLoadingLlm] = useState(false);
   const [originalQuery, setOriginalQuery] = useState<string>("");
   const [isProcessingNaturalLanguage, setIsProcessingNaturalLanguage] = useState(false);
+  const [searchedQuery, setSearchedQuery] = useState(""); // Query sent to the server, keywords for a question
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword'); // Mode the server searched the current query in
+  const [totalResults, setTotalResults] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [serverRunning, setServerRunning] = useState<boolean | null>(null); // null until the server has been looked for
+  const searchRequest = useRef(0); // Tells a stale response from the current search's
 
-  // Extract unique file types from results
-  const fileTypes = Array.from(new Set(results.map(r => {
-    const ext = r.filename.split('.').pop()?.toLowerCase() || '';
-    return ext ? ext : 'unknown';
-  })));
+  const checkServer = async () => {
+    setServerRunning(await discoverServer() !== null);
+  };
 
-  const filteredResults = fileTypeFilter 
-    ? results.filter(r => r.filename.toLowerCase().endsWith(`.${fileTypeFilter}`))
-    : results;
+  // Look for the server again, and search what was typed meanwhile once it is found
+  const retryServer = async () => {
+    if (await discoverServer()) {
+      setServerRunning(true);
+      performSearch(searchText, isNaturalLanguageQuery(searchText));
+    } else {
+      showToast({ style: Toast.Style.Failure, title: "Search server still not running" });
+    }
+  };
+
+  useEffect(() => {
+    checkServer();
+  }, []);
+
+  // The dropdown's filter is sent as part of the query
+  const withFacetFilter = (query: string) => facetFilter ? `${query} ${facetFilter}` : query;
 
   const performSearch = async (query: string, isNaturalLanguage: boolean = false) => {
     if (!query.trim()) {
@@ -276,52 +617,58 @@ export default function Command() {
     }
 
     // Clear previous results and context
+    const requestId = ++searchRequest.current;
     setResults([]);
     setSelectedResult(null);
     setLlmContext(null);
+    setHasMore(false);
     setIsLoading(true);
     setError(null);
 
     try {
-      // If this is a natural language query, extract keywords first
+      // Questions are searched by meaning on the server's local model
       let searchQuery = query;
-      if (isNaturalLanguage) {
+      setOriginalQuery(query); // Store the original query for later use
+      let data = await fetchSearchPage(withFacetFilter(searchQuery), 0, isNaturalLanguage ? 'hybrid' : 'keyword');
+
+      // Without an embedding model on the server, fall back to having the
+      // LLM turn the question into keywords
+      if (isNaturalLanguage && data.mode === 'keyword' && requestId === searchRequest.current) {
         setIsProcessingNaturalLanguage(true);
-        setOriginalQuery(query); // Store the original query for later use
-        searchQuery = await extractKeywordsFromQuery(query);
-        setIsProcessingNaturalLanguage(false);
-      } else {
-        // For regular searches, still store the original query
-        setOriginalQuery(query);
+        try {
+          searchQuery = await extractKeywordsFromQuery(query);
+        } finally {
+          setIsProcessingNaturalLanguage(false);
+        }
+        data = await fetchSearchPage(withFacetFilter(searchQuery), 0);
       }
-
-      const response = await fetch(`${SERVER_URL}/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          query: searchQuery,
-          options: {
-            snippetContextSize: 500, // Increased context size for LLM
-            maxSnippets: 3 // Limit to 3 snippets per result for cleaner display
-          }
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Search failed: ${response.statusText}`);
+      if (requestId !== searchRequest.current) {
+        return; // A newer search replaced this one
       }
-
-      const data = await response.json() as SearchResponse;
+      // Keep the dropdown's counts for the whole query while a filter is picked
+      if (!facetFilter) {
+        setFacets(data.facets);
+      }
+      setSearchedQuery(searchQuery);
+      setSearchMode(data.mode);
+      setTotalResults(data.total);
+      setHasMore(data.hasMore);
       
       // Apply custom scoring to boost results with search terms in their filenames
       const enhancedResults = enhanceSearchResults(data.results, searchQuery, query);
       
       setResults(enhancedResults);
       setSelectedResult(enhancedResults.length > 0 ? enhancedResults[0] : null);
+      setServerRunning(true);
     } catch (error) {
       console.error('Search error:', error);
+      if (!serverUrl) {
+        // Shown as its own view rather than as a failed search
+        setServerRunning(false);
+        setResults([]);
+        setSelectedResult(null);
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Search failed';
       setError(errorMessage);
       showToast({
@@ -332,7 +679,40 @@ export default function Command() {
       setResults([]);
       setSelectedResult(null);
     } finally {
-      setIsLoading(false);
+      if (requestId === searchRequest.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Fetch the next page when the list is scrolled to the end. Later pages are
+  // appended as they come so results already shown do not move.
+  const loadMore = async () => {
+    if (isLoading || !hasMore) {
+      return;
+    }
+    const requestId = searchRequest.current;
+    setIsLoading(true);
+    try {
+      const data = await fetchSearchPage(withFacetFilter(searchedQuery), results.length, searchMode);
+      if (requestId !== searchRequest.current) {
+        return;
+      }
+      setTotalResults(data.total);
+      setHasMore(data.hasMore);
+      setResults(previous => [...previous, ...enhanceSearchResults(data.results, searchedQuery, originalQuery || searchedQuery)]);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+      setHasMore(false);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Could not load more results",
+        message: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      if (requestId === searchRequest.current) {
+        setIsLoading(false);
+      }
     }
   };
   
@@ -417,19 +797,15 @@ export default function Command() {
     setOriginalQuery("");
     
     if (searchText.trim().length >= 2) {
-      // Determine if this looks like a natural language query
-      const isNaturalLanguage = 
-        searchText.trim().length > 15 && // Longer than typical keyword search
-        (searchText.includes(" ") && // Has spaces
-        (searchText.includes("?") || // Has question mark
-         /^(what|how|when|where|who|why|can|does|is|are|will|should)/i.test(searchText.trim()))); // Starts with question word
-      
-      performSearch(searchText, isNaturalLanguage);
+      performSearch(searchText, isNaturalLanguageQuery(searchText));
     } else {
+      searchRequest.current++; // Drop responses to the previous search
       setResults([]);
       setSelectedResult(null);
+      setHasMore(false);
+      setFacets(null);
     }
-  }, [searchText]);
+  }, [searchText, facetFilter]);
 
   // Effect to trigger LLM context generation when a result is selected
   useEffect(() => {
@@ -477,12 +853,7 @@ export default function Command() {
               // For PDF and DOCX files, try to use the MCP service to extract content
               try {
                 // Make a request to the server to get file content
-                fetch(`${SERVER_URL}/file?path=${encodeURIComponent(filePath)}`, {
-                  method: 'GET',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  }
-                })
+                serverFetch(`/file?path=${encodeURIComponent(filePath)}`, { method: 'GET' })
                 .then(response => {
                   if (!response.ok) {
                     throw new Error(`Failed to get file content: ${response.statusText}`);
@@ -571,7 +942,10 @@ export default function Command() {
       navigationTitle="Search Local Files"
       searchBarPlaceholder="Search or ask questions about your files..."
       throttle={true}
-      onSearchTextChange={setSearchText}
+      onSearchTextChange={(text) => {
+        setSearchText(text);
+        setFacetFilter(null); // Counts from the previous query no longer apply
+      }}
       onSelectionChange={(id) => {
         const result = results.find((item, index) => `${item.path}-${index}` === id);
         if (result) {
@@ -580,21 +954,37 @@ export default function Command() {
       }}
       searchBarAccessory={
         <List.Dropdown
-          tooltip="Filter by file type"
-          value={fileTypeFilter || "all"}
-          onChange={(newValue) => setFileTypeFilter(newValue === "all" ? null : newValue)}
+          tooltip="Filter results"
+          value={facetFilter || "all"}
+          onChange={(newValue) => setFacetFilter(newValue === "all" ? null : newValue)}
         >
-          <List.Dropdown.Item title="All Types" value="all" />
-          {fileTypes.map(type => (
-            <List.Dropdown.Item key={type} title={type.toUpperCase()} value={type} />
+          <List.Dropdown.Item title="All Results" value="all" />
+          {facets && FACET_SECTIONS.filter(section => facets[section.field].length > 0).map(section => (
+            <List.Dropdown.Section key={section.field} title={section.title}>
+              {facets[section.field].map(facet => (
+                <List.Dropdown.Item key={facet.filter} title={`${facet.label} (${facet.count})`} value={facet.filter} />
+              ))}
+            </List.Dropdown.Section>
           ))}
         </List.Dropdown>
       }
       selectedItemId={selectedResult ? `${selectedResult.path}-${results.indexOf(selectedResult)}` : undefined}
       isShowingDetail={true}
       enableFiltering={false}
+      pagination={{ pageSize: PAGE_SIZE, hasMore, onLoadMore: loadMore }}
     >
-      {error ? (
+      {serverRunning === false ? (
+        <List.EmptyView
+          icon={Icon.Plug}
+          title="Search server not running"
+          description="Start it with npm run dev:server in the extension's folder, then retry"
+          actions={
+            <ActionPanel>
+              <Action title="Retry" icon={Icon.ArrowClockwise} onAction={retryServer} />
+            </ActionPanel>
+          }
+        />
+      ) : error ? (
         <List.EmptyView
           title="Error"
           description={error}
@@ -602,24 +992,29 @@ export default function Command() {
       ) : searchText.trim().length < 2 ? (
         <List.EmptyView
           title="Start typing to search"
-          description="Enter at least 2 characters to search or ask a question"
+          description={'Enter at least 2 characters to search or ask a question. Use "exact phrase", -exclude, a OR b and filters like ext:pdf, name:, path:, in:~/Documents, modified:>2024-01-01, size:>5MB or author:'}
         />
-      ) : isLoading || isProcessingNaturalLanguage ? (
+      ) : (isLoading || isProcessingNaturalLanguage) && results.length === 0 ? (
         <List.EmptyView
           title={isProcessingNaturalLanguage ? "Processing your question..." : "Searching..."}
           description="Please wait while we process your query"
         />
-      ) : filteredResults.length === 0 ? (
+      ) : results.length === 0 ? (
         <List.EmptyView
           title="No results found"
           description="Try a different search term or question"
         />
       ) : (
-        <List.Section title={originalQuery ? `Results for: "${originalQuery}"` : `Results for: "${searchText}"`}>
-          {filteredResults.map((item, index) => {
+        <List.Section
+          title={originalQuery ? `Results for: "${originalQuery}"` : `Results for: "${searchText}"`}
+          subtitle={`${results.length} of ${totalResults}`}
+        >
+          {results.map((item, index) => {
             // Determine if this is an image file
             const ext = item.filename.split('.').pop()?.toLowerCase() || '';
             const isImage = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp', 'avif'].includes(ext);
+            const documentLength = formatDocumentLength(item.metadata);
+            const camera = formatCamera(item.metadata);
             
             return (
               <List.Item
@@ -651,12 +1046,52 @@ export default function Command() {
                         <List.Item.Detail.Metadata.Separator />
                         
                         <List.Item.Detail.Metadata.Label title="Filename" text={item.filename} icon={getFileIcon(item.filename)} />
-                        <List.Item.Detail.Metadata.Label title="Source" text="Local File" icon={Icon.Folder} />
+                        <List.Item.Detail.Metadata.Label title="Source" text={item.root || 'Local File'} icon={Icon.Folder} />
                         <List.Item.Detail.Metadata.Label title="Content type" text={ext.toUpperCase() || 'Unknown'} />
+                        {item.metadata?.from && (
+                          <List.Item.Detail.Metadata.Label title="From" text={item.metadata.from} icon={Icon.Person} />
+                        )}
+                        {item.metadata?.to && item.metadata.to.length > 0 && (
+                          <List.Item.Detail.Metadata.Label title="To" text={item.metadata.to.join(', ')} />
+                        )}
+                        {item.metadata?.sentAt !== undefined && (
+                          <List.Item.Detail.Metadata.Label title="Sent" text={formatDate(item.metadata.sentAt)} />
+                        )}
+                        {item.metadata?.title && (
+                          <List.Item.Detail.Metadata.Label title="Title" text={item.metadata.title} />
+                        )}
+                        {item.metadata?.author && (
+                          <List.Item.Detail.Metadata.Label title="Author" text={item.metadata.author} icon={Icon.Person} />
+                        )}
+                        {item.metadata?.subject && (
+                          <List.Item.Detail.Metadata.Label title="Subject" text={item.metadata.subject} />
+                        )}
+                        {item.metadata?.keywords && item.metadata.keywords.length > 0 && (
+                          <List.Item.Detail.Metadata.TagList title="Keywords">
+                            {item.metadata.keywords.map(keyword => (
+                              <List.Item.Detail.Metadata.TagList.Item key={keyword} text={keyword} />
+                            ))}
+                          </List.Item.Detail.Metadata.TagList>
+                        )}
+                        {item.metadata?.createdAt !== undefined && (
+                          <List.Item.Detail.Metadata.Label title="Created" text={formatDate(item.metadata.createdAt)} />
+                        )}
+                        {documentLength && (
+                          <List.Item.Detail.Metadata.Label title={documentLength.title} text={documentLength.text} />
+                        )}
                         
                         {isImage ? (
                           <>
-                            <List.Item.Detail.Metadata.Label title="Dimensions" text="N/A" />
+                            <List.Item.Detail.Metadata.Label
+                              title="Dimensions"
+                              text={item.metadata?.width && item.metadata?.height ? `${item.metadata.width} × ${item.metadata.height}` : 'N/A'}
+                            />
+                            {camera && (
+                              <List.Item.Detail.Metadata.Label title="Camera" text={camera} icon={Icon.Camera} />
+                            )}
+                            {item.metadata?.takenAt !== undefined && (
+                              <List.Item.Detail.Metadata.Label title="Taken" text={formatDate(item.metadata.takenAt)} />
+                            )}
                             <List.Item.Detail.Metadata.Label title="Image size" text={formatFileSize(item.size)} />
                           </>
                         ) : (
@@ -688,6 +1123,9 @@ export default function Command() {
                           )}
                         </List.Item.Detail.Metadata.TagList>
                         <List.Item.Detail.Metadata.Label title="Match type" text={getMatchTypeLabel(item.matchType)} />
+                        {formatScoreBreakdown(item.scoreBreakdown) && (
+                          <List.Item.Detail.Metadata.Label title="Ranked by" text={formatScoreBreakdown(item.scoreBreakdown)!} />
+                        )}
                         {item.boosted && item.originalScore !== undefined && (
                           <List.Item.Detail.Metadata.Label 
                             title="Original score" 
@@ -695,30 +1133,52 @@ export default function Command() {
                           />
                         )}
                         <List.Item.Detail.Metadata.Separator />
-                        <List.Item.Detail.Metadata.Link title="Path" target={item.path} text={item.path} />
+                        {item.archive ? (
+                          <>
+                            <List.Item.Detail.Metadata.Label title="Archive" text={item.archive} icon={Icon.Box} />
+                            <List.Item.Detail.Metadata.Label title="Path" text={item.path} />
+                          </>
+                        ) : (
+                          <List.Item.Detail.Metadata.Link title="Path" target={item.path} text={item.path} />
+                        )}
                       </List.Item.Detail.Metadata>
                     }
                   />
                 }
                 actions={
                   <ActionPanel>
-                    <ActionPanel.Section>
-                      <Action.Open
-                        title="Open File"
-                        target={item.path}
-                        icon={Icon.Document}
-                      />
-                      <Action.ShowInFinder
-                        path={item.path}
-                        title="Show in Finder"
-                        icon={Icon.Finder}
-                      />
-                      <Action.OpenWith
-                        path={item.path}
-                        title="Open With..."
-                        icon={Icon.AppWindow}
-                      />
-                    </ActionPanel.Section>
+                    {item.archive ? (
+                      <ActionPanel.Section>
+                        <Action
+                          title="Extract and Open"
+                          icon={Icon.Document}
+                          onAction={() => extractAndOpen(item)}
+                        />
+                        <Action.ShowInFinder
+                          path={getArchiveFilePath(item)}
+                          title="Show Archive in Finder"
+                          icon={Icon.Finder}
+                        />
+                      </ActionPanel.Section>
+                    ) : (
+                      <ActionPanel.Section>
+                        <Action.Open
+                          title="Open File"
+                          target={item.path}
+                          icon={Icon.Document}
+                        />
+                        <Action.ShowInFinder
+                          path={item.path}
+                          title="Show in Finder"
+                          icon={Icon.Finder}
+                        />
+                        <Action.OpenWith
+                          path={item.path}
+                          title="Open With..."
+                          icon={Icon.AppWindow}
+                        />
+                      </ActionPanel.Section>
+                    )}
                     <ActionPanel.Section>
                       <Action.CopyToClipboard
                         content={item.path}
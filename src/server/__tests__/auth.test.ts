@@ -0,0 +1,67 @@
+import type { Request, Response } from 'express';
+import { requireLocalAccess } from '../auth.js';
+
+const TOKEN = 'secret-token';
+
+function request(path: string, headers: Record<string, string>): Request {
+  return { method: 'GET', path, headers } as unknown as Request;
+}
+
+function response(): Response & { statusCode?: number; body?: unknown } {
+  const res: Partial<Response> & { statusCode?: number; body?: unknown } = {};
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res as Response;
+  });
+  res.set = jest.fn(() => res as Response);
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res as Response;
+  });
+  return res as Response & { statusCode?: number; body?: unknown };
+}
+
+describe('requireLocalAccess', () => {
+  const middleware = requireLocalAccess({ getToken: () => TOKEN, getPort: () => 49152 });
+
+  function run(path: string, headers: Record<string, string>) {
+    const res = response();
+    const next = jest.fn();
+    middleware(request(path, headers), res, next);
+    return { res, next };
+  }
+
+  it('should let local requests with the token through', () => {
+    expect(run('/search', { host: 'localhost:49152', authorization: `Bearer ${TOKEN}` }).next).toHaveBeenCalled();
+    expect(run('/search', { host: '127.0.0.1:49152', authorization: `bearer ${TOKEN}` }).next).toHaveBeenCalled();
+  });
+
+  it('should require the token on every route but /health', () => {
+    expect(run('/health', { host: 'localhost:49152' }).next).toHaveBeenCalled();
+
+    const { res, next } = run('/file', { host: 'localhost:49152' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.set).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer');
+
+    expect(run('/file', { host: 'localhost:49152', authorization: 'Bearer wrong' }).res.statusCode).toBe(401);
+    expect(run('/file', { host: 'localhost:49152', authorization: TOKEN }).res.statusCode).toBe(401);
+  });
+
+  it('should refuse other host names, as sent after DNS rebinding', () => {
+    const { res, next } = run('/health', { host: 'attacker.example:49152', authorization: `Bearer ${TOKEN}` });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(run('/health', { host: 'localhost:8080' }).res.statusCode).toBe(403);
+    expect(run('/health', { host: '[::1]:49152' }).res.statusCode).toBe(403);
+    expect(run('/health', {}).res.statusCode).toBe(403);
+  });
+
+  it('should refuse requests from web pages', () => {
+    const { res, next } = run('/search', { host: 'localhost:49152', origin: 'https://example.com', authorization: `Bearer ${TOKEN}` });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(run('/health', { host: 'localhost:49152', origin: 'null' }).res.statusCode).toBe(403);
+    expect(run('/health', { host: 'localhost:49152', origin: 'http://localhost:49152' }).next).toHaveBeenCalled();
+  });
+});
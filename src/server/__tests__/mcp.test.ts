@@ -0,0 +1,139 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer } from '../mcp.js';
+import { searchIndex } from '../../services/search/index.js';
+import { mcpService } from '../../services/mcp/index.js';
+import { QuerySyntaxError } from '../../services/search/query.js';
+
+jest.mock('../../services/search/index', () => ({
+  ...jest.requireActual('../../services/search/index'),
+  searchIndex: {
+    searchPage: jest.fn(),
+    semanticSearchPage: jest.fn(),
+    getDocument: jest.fn(),
+    hasDocument: jest.fn(),
+    listDocuments: jest.fn(),
+    getStats: jest.fn()
+  }
+}));
+
+jest.mock('../../services/mcp', () => ({
+  ...jest.requireActual('../../services/mcp'),
+  mcpService: {
+    readFile: jest.fn(),
+    getRoots: jest.fn(),
+    isInsideRoots: jest.fn()
+  }
+}));
+
+const document = { path: '/docs/notes.txt', filename: 'notes.txt', root: 'Docs', size: 33, lastModified: 0 };
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  return (result.content as { type: string; text: string }[])[0].text;
+}
+
+describe('MCP server', () => {
+  let client: Client;
+  let ready: boolean;
+  let indexError: string | null;
+  const retryIndex = jest.fn();
+
+  beforeEach(async () => {
+    ready = true;
+    indexError = null;
+    (searchIndex.getDocument as jest.Mock).mockImplementation((filePath: string) =>
+      filePath === document.path ? { ...document, content: 'The invoices for March were paid.' } : undefined
+    );
+    (searchIndex.hasDocument as jest.Mock).mockImplementation((filePath: string) => filePath === document.path);
+    (mcpService.isInsideRoots as jest.Mock).mockResolvedValue(true);
+    (searchIndex.listDocuments as jest.Mock).mockReturnValue([document]);
+    (searchIndex.getStats as jest.Mock).mockReturnValue({ totalFiles: 1 });
+    (searchIndex.searchPage as jest.Mock).mockReturnValue({
+      results: [{ ...document, score: 0.8, matchType: 'content', snippets: [{ text: 'The invoices', score: 1, position: 0 }] }],
+      total: 1,
+      offset: 0,
+      limit: 10,
+      hasMore: false,
+      facets: {}
+    });
+    (mcpService.readFile as jest.Mock).mockResolvedValue({ content: 'The invoices for March were paid.', encoding: 'utf-8', size: 33, lastModified: 0 });
+    (mcpService.getRoots as jest.Mock).mockReturnValue([{ name: 'Docs', path: '/docs' }]);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ isReady: () => ready, getIndexError: () => indexError, retryIndex }).connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    jest.clearAllMocks();
+  });
+
+  it('should list the search, read and roots tools', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name).sort()).toEqual(['list_roots', 'read_file', 'search_files']);
+  });
+
+  it('should search the index', async () => {
+    const result = await client.callTool({ name: 'search_files', arguments: { query: 'invoice', limit: 5 } });
+    expect(searchIndex.searchPage).toHaveBeenCalledWith('invoice', expect.objectContaining({ limit: 5 }));
+    const page = JSON.parse(textOf(result));
+    expect(page.results[0]).toMatchObject({ path: '/docs/notes.txt', uri: 'file:///docs/notes.txt', snippets: [{ text: 'The invoices' }] });
+    expect(page.mode).toBe('keyword');
+  });
+
+  it('should report unreadable filters as tool errors', async () => {
+    (searchIndex.searchPage as jest.Mock).mockImplementation(() => {
+      throw new QuerySyntaxError('Invalid size filter "big"');
+    });
+    const result = await client.callTool({ name: 'search_files', arguments: { query: 'size:big' } });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('Invalid size filter');
+  });
+
+  it('should only read indexed files', async () => {
+    const result = await client.callTool({ name: 'read_file', arguments: { path: '/docs/notes.txt' } });
+    expect(textOf(result)).toBe('The invoices for March were paid.');
+
+    const denied = await client.callTool({ name: 'read_file', arguments: { path: '/etc/passwd' } });
+    expect(denied.isError).toBe(true);
+    expect(mcpService.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unreadable page ranges', async () => {
+    const result = await client.callTool({ name: 'read_file', arguments: { path: '/docs/notes.txt', pages: '5-3' } });
+    expect(result.isError).toBe(true);
+  });
+
+  it('should list the roots', async () => {
+    const result = await client.callTool({ name: 'list_roots', arguments: {} });
+    expect(JSON.parse(textOf(result))).toEqual({ roots: [{ name: 'Docs', path: '/docs' }], totalFiles: 1 });
+  });
+
+  it('should expose indexed documents as resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([expect.objectContaining({ uri: 'file:///docs/notes.txt', name: 'notes.txt' })]);
+
+    const { contents } = await client.readResource({ uri: 'file:///docs/notes.txt' });
+    expect(contents[0]).toMatchObject({ text: 'The invoices for March were paid.' });
+    await expect(client.readResource({ uri: 'file:///etc/passwd' })).rejects.toThrow();
+  });
+
+  it('should ask clients to wait while the index is built', async () => {
+    ready = false;
+    const result = await client.callTool({ name: 'search_files', arguments: { query: 'invoice' } });
+    expect(result.isError).toBe(true);
+    expect(searchIndex.searchPage).not.toHaveBeenCalled();
+    expect(retryIndex).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed index build and start another', async () => {
+    ready = false;
+    indexError = 'EACCES: permission denied';
+    const result = await client.callTool({ name: 'search_files', arguments: { query: 'invoice' } });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('EACCES: permission denied');
+    expect(retryIndex).toHaveBeenCalledTimes(1);
+  });
+});
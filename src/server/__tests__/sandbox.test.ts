@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveServablePath } from '../sandbox.js';
+import { searchIndex } from '../../services/search/index.js';
+import { mcpService } from '../../services/mcp/index.js';
+
+jest.mock('../../services/search/index', () => ({
+  ...jest.requireActual('../../services/search/index'),
+  searchIndex: { hasDocument: jest.fn() }
+}));
+
+describe('resolveServablePath', () => {
+  let tmpDir: string;
+  let root: string;
+  let secret: string;
+  let indexed: Set<string>;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-')));
+    root = path.join(tmpDir, 'docs');
+    fs.mkdirSync(path.join(root, 'reports'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'reports', 'q3.txt'), 'revenue');
+    fs.writeFileSync(path.join(root, 'bundle.zip'), '');
+    secret = path.join(tmpDir, 'id_rsa');
+    fs.writeFileSync(secret, 'private key');
+    fs.symlinkSync(secret, path.join(root, 'key.txt'));
+
+    // The walker would have indexed the link like any other file
+    indexed = new Set([path.join(root, 'reports', 'q3.txt'), path.join(root, 'key.txt'), path.join(root, 'bundle.zip!/q3.pdf')]);
+    (searchIndex.hasDocument as jest.Mock).mockImplementation((filePath: string) => indexed.has(filePath));
+    jest.spyOn(mcpService, 'getRoots').mockReturnValue([{ name: 'Docs', path: root, include: [], exclude: [], maxDepth: null, includeHidden: false }]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should serve indexed files inside the roots', async () => {
+    expect(await resolveServablePath(path.join(root, 'reports', 'q3.txt'))).toBe(path.join(root, 'reports', 'q3.txt'));
+    expect(await resolveServablePath(path.join(root, 'bundle.zip!/q3.pdf'))).toBe(path.join(root, 'bundle.zip!/q3.pdf'));
+  });
+
+  it('should resolve .. before looking the path up', async () => {
+    expect(await resolveServablePath(`${root}/reports/../reports/q3.txt`)).toBe(path.join(root, 'reports', 'q3.txt'));
+    expect(await resolveServablePath(`${root}/reports/../../id_rsa`)).toBeNull();
+    expect(await resolveServablePath(`${root}/../../../../etc/passwd`)).toBeNull();
+  });
+
+  it('should refuse files that are not in the index', async () => {
+    fs.writeFileSync(path.join(root, 'new.txt'), 'not indexed yet');
+    expect(await resolveServablePath(path.join(root, 'new.txt'))).toBeNull();
+    expect(await resolveServablePath(secret)).toBeNull();
+  });
+
+  it('should refuse links that lead outside the roots', async () => {
+    expect(await resolveServablePath(path.join(root, 'key.txt'))).toBeNull();
+  });
+
+  it('should refuse relative paths', async () => {
+    expect(await resolveServablePath('docs/reports/q3.txt')).toBeNull();
+  });
+
+  it('should refuse indexed files that are gone or whose root was removed', async () => {
+    fs.rmSync(path.join(root, 'reports', 'q3.txt'));
+    expect(await resolveServablePath(path.join(root, 'reports', 'q3.txt'))).toBeNull();
+
+    (mcpService.getRoots as jest.Mock).mockReturnValue([]);
+    expect(await resolveServablePath(path.join(root, 'bundle.zip!/q3.pdf'))).toBeNull();
+  });
+});
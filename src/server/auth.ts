@@ -0,0 +1,54 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { tokensMatch } from '../services/auth/index.js';
+
+// Open without a token, so clients can tell whether the server is running
+const PUBLIC_PATHS = new Set(['/health']);
+
+// The server only listens on 127.0.0.1, which localhost resolves to
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1'];
+
+export interface LocalAccessOptions {
+  getToken: () => string | null; // The server's token, once loaded
+  getPort: () => number | null;  // The port the server listens on
+}
+
+/**
+ * Only let local clients that know the server's token in. Requests addressed
+ * to another host name (a DNS-rebinding page whose name resolves to
+ * 127.0.0.1) or sent by a web page with a foreign Origin are refused
+ * outright; every route but /health also needs `Authorization: Bearer <token>`.
+ */
+export function requireLocalAccess(options: LocalAccessOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const port = options.getPort();
+    const allowedHosts = LOOPBACK_HOSTS.map(host => `${host}:${port}`);
+
+    const host = req.headers.host?.toLowerCase();
+    if (!host || !allowedHosts.includes(host)) {
+      console.warn(`Refused request for host ${host ?? '(none)'}: ${req.method} ${req.path}`);
+      res.status(403).json({ error: 'Forbidden: requests must be addressed to localhost' });
+      return;
+    }
+
+    // Raycast and other local clients send no Origin; browsers always do
+    const origin = req.headers.origin?.toLowerCase();
+    if (origin !== undefined && !allowedHosts.some(allowed => origin === `http://${allowed}`)) {
+      console.warn(`Refused request from origin ${origin}: ${req.method} ${req.path}`);
+      res.status(403).json({ error: 'Forbidden: cross-origin requests are not allowed' });
+      return;
+    }
+
+    if (PUBLIC_PATHS.has(req.path)) {
+      next();
+      return;
+    }
+
+    const token = options.getToken();
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    if (!token || !match || !tokensMatch(token, match[1])) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'A valid token is required, send Authorization: Bearer <token> with the contents of the auth-token file' });
+      return;
+    }
+    next();
+  };
+}
@@ -1,32 +1,85 @@
 import express from 'express';
 import type { Request, Response } from 'express';
-import { searchIndex } from '../services/search/index.js';
-import { mcpService } from '../services/mcp/index.js';
+import type { Server } from 'http';
+import { searchIndex, MAX_SEARCH_LIMIT, SEARCH_MODES } from '../services/search/index.js';
+import { METADATA_FILTER_FIELDS } from '../services/search/metadata.js';
+import { QuerySyntaxError } from '../services/search/query.js';
+import { mcpService, parsePageRange } from '../services/mcp/index.js';
+import type { PageRange } from '../services/mcp/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from './mcp.js';
+import { resolveServablePath } from './sandbox.js';
+import { requireLocalAccess } from './auth.js';
+import { loadOrCreateToken } from '../services/auth/index.js';
+import { createServerIdentity, removeRuntimeFile, writeRuntimeFile } from '../services/runtime/index.js';
+import type { ServerIdentity } from '../services/runtime/index.js';
 
 const app = express();
+// Only reachable from this machine; clients connect to this address
+const HOST = '127.0.0.1';
 const BASE_PORT = 49152;
 const MAX_PORT_TRIES = 10;
 let currentPort: number | null = null;
+let httpServer: Server | null = null;
 let indexReady = false;
+let indexError: string | null = null; // Why the last index build failed
+let indexRun = 0; // Tells a build of a stopped server from the current one's
+let authToken: string | null = null;
+let serverIdentity: ServerIdentity | null = null;
+let startPromise: Promise<void> | null = null;
+let stopPromise: Promise<void> | null = null;
 
-// Initialize search index
-console.log('Initializing search index...');
-searchIndex.buildIndex()
-  .then(() => {
-    console.log('Search index built successfully');
+// Bring the index up to date. A failed build leaves the server running with
+// the snapshot, if there was one; /health reports the error and
+// POST /reindex tries again.
+function rebuildIndex(): void {
+  const run = indexRun;
+  indexError = null;
+  searchIndex.buildIndex()
+    .then(() => {
+      if (run === indexRun) {
+        console.log('Search index built successfully');
+        indexReady = true;
+      }
+    })
+    .catch(error => {
+      console.error('Failed to build search index:', error);
+      if (run === indexRun) {
+        indexError = error instanceof Error ? error.message : String(error);
+      }
+    });
+}
+
+// Initialize search index. The snapshot from the last run answers searches
+// while the rebuild brings it up to date; file changes seen meanwhile are
+// applied once the build completes.
+async function startIndex(): Promise<void> {
+  const run = ++indexRun;
+  indexReady = false;
+  console.log('Initializing search index...');
+  const loaded = await searchIndex.loadSnapshot();
+  if (run !== indexRun) {
+    return;
+  }
+  if (loaded) {
+    console.log('Serving the index snapshot while it is brought up to date');
     indexReady = true;
-  })
-  .catch(error => {
-    console.error('Failed to build search index:', error);
-    process.exit(1); // Exit if we can't build the index
-  });
+  }
+  searchIndex.startWatching();
+  rebuildIndex();
+}
 
 // Middleware
+app.use(requireLocalAccess({ getToken: () => authToken, getPort: () => currentPort }));
 app.use(express.json());
 app.use((req, res, next) => {
   console.log(`${req.method} ${req.path}`);
-  if (!indexReady && req.path !== '/health') {
-    res.status(503).json({ error: 'Service is starting up, please try again in a moment' });
+  if (!indexReady && req.path !== '/health' && req.path !== '/reindex') {
+    res.status(503).json({
+      error: indexError
+        ? `The search index could not be built: ${indexError}. Fix the cause and POST /reindex to try again`
+        : 'Service is starting up, please try again in a moment'
+    });
     return;
   }
   next();
@@ -37,20 +90,43 @@ app.get('/health', async (req: Request, res: Response) => {
   console.log('Health check requested');
   const stats = searchIndex.getStats();
   res.json({ 
-    status: 'ok',
+    status: indexError ? 'degraded' : 'ok',
+    server: serverIdentity,
     search: {
       totalFiles: stats.totalFiles,
       isIndexing: stats.isIndexing,
-      indexReady
+      indexReady,
+      indexError,
+      embeddedFiles: stats.embeddedFiles,
+      embeddingModel: stats.embeddingModel
     }
   });
 });
 
+// Build the index again, e.g. after a failed build whose cause was fixed
+app.post('/reindex', (req: Request, res: Response) => {
+  console.log('Index rebuild requested');
+  if (!searchIndex.getStats().isIndexing) {
+    rebuildIndex();
+  }
+  res.status(202).json({ status: 'indexing' });
+});
+
+app.get('/roots', async (req: Request, res: Response) => {
+  console.log('Listing index roots');
+  try {
+    res.json({ roots: mcpService.getRoots() });
+  } catch (error) {
+    console.error('Error loading index roots:', error);
+    res.status(500).json({ error: 'Failed to load index roots' });
+  }
+});
+
 app.get('/files', async (req: Request, res: Response) => {
   console.log('Listing files');
   try {
     const files = await mcpService.listFiles();
-    res.json({ files });
+    res.json({ files, skipped: mcpService.getLastScanSkips() });
   } catch (error) {
     console.error('Error listing files:', error);
     res.status(500).json({ error: 'Failed to list files' });
@@ -58,26 +134,85 @@ app.get('/files', async (req: Request, res: Response) => {
 });
 
 app.get('/file', async (req: Request, res: Response) => {
-  const { path } = req.query;
-  console.log('Reading file:', path);
+  const { path, pages } = req.query;
+  console.log('Reading file:', path, pages ? `pages: ${pages}` : '');
   try {
     if (!path || typeof path !== 'string') {
       res.status(400).json({ error: 'Path is required' });
       return;
     }
-    const content = await mcpService.readFile(path);
+
+    let pageRange: PageRange | undefined;
+    if (pages !== undefined) {
+      pageRange = typeof pages === 'string' ? parsePageRange(pages) ?? undefined : undefined;
+      if (!pageRange) {
+        res.status(400).json({ error: 'pages must be a page number or range such as 3-5' });
+        return;
+      }
+    }
+
+    // Only indexed files inside the roots are served, whatever the path says
+    const filePath = await resolveServablePath(path);
+    if (!filePath) {
+      console.warn('Refused to read file outside the index:', path);
+      res.status(403).json({ error: `Access denied: ${path} is not an indexed file inside the index roots` });
+      return;
+    }
+
+    const content = await mcpService.readFile(filePath, { pages: pageRange });
     res.json(content);
   } catch (error) {
+    if (error instanceof RangeError) {
+      res.status(416).json({ error: error.message });
+      return;
+    }
     console.error('Error reading file:', error);
     res.status(500).json({ error: 'Failed to read file' });
   }
 });
 
+app.post('/extract', async (req: Request, res: Response) => {
+  const { path } = req.body;
+  console.log('Extract requested:', path);
+  try {
+    if (!path || typeof path !== 'string') {
+      res.status(400).json({ error: 'Path is required' });
+      return;
+    }
+
+    const memberPath = await resolveServablePath(path);
+    if (!memberPath) {
+      console.warn('Refused to extract file outside the index:', path);
+      res.status(403).json({ error: `Access denied: ${path} is not an indexed file inside the index roots` });
+      return;
+    }
+
+    const extractedPath = await mcpService.extractArchiveMember(memberPath);
+    res.json({ path: extractedPath });
+  } catch (error) {
+    if (error instanceof TypeError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error extracting archive member:', error);
+    res.status(500).json({ error: 'Failed to extract file' });
+  }
+});
+
+// Snippet settings a client may ask for, capped to keep responses small
+const MAX_SNIPPET_CONTEXT = 2000;
+const MAX_SNIPPETS = 20;
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
 app.post('/search', async (req: Request, res: Response) => {
-  const { query, fileTypes } = req.body;
-  console.log('Search requested:', query, 'fileTypes:', fileTypes);
+  const { query, fileTypes, metadata, limit, offset, mode = 'keyword', options = {} } = req.body;
+  console.log('Search requested:', query, 'mode:', mode, 'fileTypes:', fileTypes, 'metadata:', metadata, 'limit:', limit, 'offset:', offset);
   try {
-    if (!query || typeof query !== 'string') {
+    // An empty query is fine when a metadata filter narrows the results
+    if (typeof query !== 'string' || (!query && !metadata)) {
       res.status(400).json({ error: 'Search query is required' });
       return;
     }
@@ -90,41 +225,163 @@ app.post('/search', async (req: Request, res: Response) => {
       }
     }
 
+    // Validate metadata filter if provided
+    if (metadata !== undefined) {
+      const isValid = typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata) &&
+        Object.entries(metadata).every(([field, value]) =>
+          (METADATA_FILTER_FIELDS as readonly string[]).includes(field) && typeof value === 'string'
+        );
+      if (!isValid) {
+        res.status(400).json({ error: `metadata must map ${METADATA_FILTER_FIELDS.join(', ')} to strings` });
+        return;
+      }
+    }
+
+    if (!(SEARCH_MODES as readonly unknown[]).includes(mode)) {
+      res.status(400).json({ error: `mode must be one of ${SEARCH_MODES.join(', ')}` });
+      return;
+    }
+
+    // Validate paging and snippet options if provided
+    if (limit !== undefined && !isIntegerInRange(limit, 1, MAX_SEARCH_LIMIT)) {
+      res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}` });
+      return;
+    }
+    if (offset !== undefined && !isIntegerInRange(offset, 0, Number.MAX_SAFE_INTEGER)) {
+      res.status(400).json({ error: 'offset must be a whole number of 0 or more' });
+      return;
+    }
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      res.status(400).json({ error: 'options must be an object' });
+      return;
+    }
+    const { snippetContextSize, maxSnippets } = options;
+    if (snippetContextSize !== undefined && !isIntegerInRange(snippetContextSize, 0, MAX_SNIPPET_CONTEXT)) {
+      res.status(400).json({ error: `options.snippetContextSize must be a whole number from 0 to ${MAX_SNIPPET_CONTEXT}` });
+      return;
+    }
+    if (maxSnippets !== undefined && !isIntegerInRange(maxSnippets, 1, MAX_SNIPPETS)) {
+      res.status(400).json({ error: `options.maxSnippets must be a whole number from 1 to ${MAX_SNIPPETS}` });
+      return;
+    }
+
     const startTime = Date.now();
-    const results = searchIndex.search(query, { fileTypes });
+    // Keyword searches skip the embedding model
+    const searchOptions = { fileTypes, metadata, limit, offset, snippetContextSize, maxSnippets };
+    const page = mode === 'keyword'
+      ? { ...searchIndex.searchPage(query, searchOptions), mode }
+      : await searchIndex.semanticSearchPage(query, { ...searchOptions, mode });
     const endTime = Date.now();
     
-    console.log(`Search completed in ${endTime - startTime}ms, found ${results.length} results`);
+    console.log(`Search completed in ${endTime - startTime}ms, found ${page.total} results`);
     
     res.json({ 
-      results,
+      results: page.results,
+      total: page.total,
+      offset: page.offset,
+      limit: page.limit,
+      hasMore: page.hasMore,
+      facets: page.facets,
+      mode: page.mode,
       stats: {
-        totalResults: results.length,
+        totalResults: page.total,
         searchTime: endTime - startTime,
         filters: {
-          fileTypes: fileTypes || []
+          fileTypes: fileTypes || [],
+          metadata: metadata || {}
         }
       }
     });
   } catch (error) {
+    // An unreadable filter such as size:>big
+    if (error instanceof QuerySyntaxError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error('Error searching:', error);
     res.status(500).json({ error: 'Search failed' });
   }
 });
 
-// Start the server
-export async function startServer(): Promise<void> {
-  console.log('Starting server...');
+app.post('/passages', async (req: Request, res: Response) => {
+  const { query, fileTypes, metadata, limit, mode = 'keyword' } = req.body;
+  console.log('Passage search requested:', query, 'mode:', mode, 'limit:', limit);
+  try {
+    if (typeof query !== 'string' || !query.trim()) {
+      res.status(400).json({ error: 'Search query is required' });
+      return;
+    }
+    if (fileTypes !== undefined && (!Array.isArray(fileTypes) || !fileTypes.every(type => typeof type === 'string'))) {
+      res.status(400).json({ error: 'fileTypes must be an array of strings' });
+      return;
+    }
+    if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata) ||
+        !Object.entries(metadata).every(([field, value]) => (METADATA_FILTER_FIELDS as readonly string[]).includes(field) && typeof value === 'string'))) {
+      res.status(400).json({ error: `metadata must map ${METADATA_FILTER_FIELDS.join(', ')} to strings` });
+      return;
+    }
+    if (!(SEARCH_MODES as readonly unknown[]).includes(mode)) {
+      res.status(400).json({ error: `mode must be one of ${SEARCH_MODES.join(', ')}` });
+      return;
+    }
+    if (limit !== undefined && !isIntegerInRange(limit, 1, MAX_SEARCH_LIMIT)) {
+      res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_SEARCH_LIMIT}` });
+      return;
+    }
+
+    const startTime = Date.now();
+    const page = await searchIndex.searchPassages(query, { fileTypes, metadata, limit, mode });
+    console.log(`Passage search completed in ${Date.now() - startTime}ms, found ${page.total} passages`);
+    res.json({ ...page, stats: { searchTime: Date.now() - startTime } });
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error searching passages:', error);
+    res.status(500).json({ error: 'Passage search failed' });
+  }
+});
+
+// Model Context Protocol over streamable HTTP. Every request gets its own
+// server and transport, so no session is kept between requests.
+app.post('/mcp', async (req: Request, res: Response) => {
+  console.log('MCP request:', req.body?.method);
+  const server = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    console.error('Error handling MCP request:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal server error' }, id: null });
+    }
+  }
+});
+
+// Without sessions there is no stream to open or session to end
+app.all('/mcp', (req: Request, res: Response) => {
+  res.status(405).set('Allow', 'POST').json({ jsonrpc: '2.0', error: { code: -32000, message: 'Method not allowed' }, id: null });
+});
+
+// Listen on the first free port from BASE_PORT
+async function listen(): Promise<void> {
   let lastError: Error | null = null;
   
   for (let port = BASE_PORT; port < BASE_PORT + MAX_PORT_TRIES; port++) {
     try {
       console.log(`Attempting to start server on port ${port}...`);
       await new Promise<void>((resolve, reject) => {
-        const server = app.listen(port)
+        const server = app.listen(port, HOST)
           .once('listening', () => {
+            httpServer = server;
             currentPort = port;
-            console.log(`File Search Server running on port ${port}`);
+            console.log(`File Search Server running on http://${HOST}:${port}`);
             resolve();
           })
           .once('error', (err) => {
@@ -143,6 +400,110 @@ export async function startServer(): Promise<void> {
   throw new Error(`Failed to start server: ${lastError?.message || 'No available ports'}`);
 }
 
+// Close what a start set up: the listening socket, the index's watchers and
+// the runtime file. The index snapshot is saved if it has unsaved changes.
+async function release(): Promise<void> {
+  const server = httpServer;
+  httpServer = null;
+  currentPort = null;
+  indexRun++; // A build still running is cancelled and must not mark the index ready
+  indexReady = false;
+  indexError = null;
+  if (server) {
+    // Waits for requests in progress; idle keep-alive connections are closed
+    await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+  await searchIndex.close();
+  if (serverIdentity) {
+    await removeRuntimeFile(serverIdentity);
+    serverIdentity = null;
+  }
+}
+
+// Start the server
+async function launch(): Promise<void> {
+  await stopPromise; // Let a stop in progress finish first
+  console.log('Starting server...');
+  try {
+    authToken = await loadOrCreateToken();
+    await startIndex();
+    await listen();
+    // Let clients find the port this server got
+    serverIdentity = createServerIdentity(currentPort!);
+    await writeRuntimeFile(serverIdentity);
+  } catch (error) {
+    await release();
+    throw error;
+  }
+}
+
+/**
+ * Start the server, or wait for the one already starting or running. After
+ * a failed start the next call tries again.
+ */
+export function startServer(): Promise<void> {
+  if (!startPromise) {
+    const starting = launch().catch(error => {
+      if (startPromise === starting) {
+        startPromise = null;
+      }
+      throw error;
+    });
+    startPromise = starting;
+  }
+  return startPromise;
+}
+
+async function shutdown(): Promise<void> {
+  const starting = startPromise;
+  startPromise = null;
+  if (!starting) {
+    return;
+  }
+  // A start still in progress finishes first, so there is a server to close
+  try {
+    await starting;
+  } catch {
+    return; // It failed and cleaned up after itself
+  }
+
+  console.log('Stopping server...');
+  await release();
+  console.log('Server stopped');
+}
+
+/**
+ * Stop listening, close the file watchers and save the index snapshot. Does
+ * nothing if the server is not running; a start in progress is waited for.
+ */
+export function stopServer(): Promise<void> {
+  if (!stopPromise) {
+    stopPromise = shutdown().finally(() => {
+      stopPromise = null;
+    });
+  }
+  return stopPromise;
+}
+
+/**
+ * Stop cleanly on Ctrl+C or when a process manager asks, then exit. For
+ * standalone runs; inside Raycast the extension stops the server on unload.
+ * A second signal exits right away.
+ */
+export function stopOnSignals(): void {
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`Received ${signal}, shutting down...`);
+      stopServer()
+        .then(() => process.exit(0))
+        .catch(error => {
+          console.error('Failed to stop server:', error);
+          process.exit(1);
+        });
+    });
+  }
+}
+
 export function getPort(): number | null {
   return currentPort;
 }
@@ -150,6 +511,7 @@ export function getPort(): number | null {
 // Start server if this file is run directly
 if (import.meta.url === new URL(process.argv[1], 'file:').href) {
   console.log('Starting server in standalone mode');
+  stopOnSignals();
   startServer().catch(error => {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -179,7 +541,8 @@ export class ServerManager {
   }
 
   public async stop(): Promise<void> {
-    // TODO: Implement server shutdown
+    await stopServer();
+    this.port = null;
   }
 }
 
@@ -0,0 +1,180 @@
+import { fileURLToPath, pathToFileURL } from 'url';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { searchIndex, MAX_SEARCH_LIMIT, SEARCH_MODES } from '../services/search/index.js';
+import { METADATA_FILTER_FIELDS } from '../services/search/metadata.js';
+import { QuerySyntaxError } from '../services/search/query.js';
+import { mcpService, parsePageRange } from '../services/mcp/index.js';
+import { SERVER_NAME, getServerVersion } from '../services/runtime/index.js';
+import { resolveServablePath } from './sandbox.js';
+
+// Extracted text returned by read_file, so a large PDF does not flood the client
+const MAX_READ_CHARS = 200000;
+
+export interface McpServerOptions {
+  isReady?: () => boolean;             // Whether the index can answer yet; always true by default
+  getIndexError?: () => string | null; // Why the last index build failed, if it did
+  retryIndex?: () => void;             // Build the index again after a failed build
+}
+
+function textResult(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }] };
+}
+
+function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function documentUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+/**
+ * A Model Context Protocol server over the search index: the search_files,
+ * read_file and list_roots tools, and every indexed document as a file://
+ * resource with its extracted text. Only indexed files inside the roots can
+ * be read, as through GET /file.
+ * Create one per connection; the index and file service are shared.
+ */
+export function createMcpServer(options: McpServerOptions = {}): McpServer {
+  const isReady = options.isReady ?? (() => true);
+  // A tool call after a failed build reports why and starts another one
+  const notReady = () => {
+    const indexError = options.getIndexError?.();
+    if (!indexError) {
+      return errorResult('The search index is still being built, please try again in a moment');
+    }
+    options.retryIndex?.();
+    return errorResult(`The search index could not be built: ${indexError}. Building it again, please try again in a moment`);
+  };
+
+  const server = new McpServer(
+    { name: SERVER_NAME, version: getServerVersion() },
+    { instructions: 'Search and read the files on this computer that are indexed for local search. Use search_files to find documents, then read_file to read one.' }
+  );
+
+  server.registerTool('search_files', {
+    title: 'Search local files',
+    description: 'Search indexed local files by name, path, metadata and content. Words are all required; the query also accepts "quoted phrases", -excluded words, a OR b, and filters such as ext:pdf, name:invoice, path:clients, in:~/Documents, modified:>2024-01-01, size:>5MB and author:jane. Returns the best matches with snippets of where they matched.',
+    inputSchema: {
+      query: z.string().min(1).describe('Search query'),
+      fileTypes: z.array(z.string()).optional().describe('Only return files with these extensions, without the dot'),
+      metadata: z.record(z.enum(METADATA_FILTER_FIELDS), z.string()).optional().describe('Metadata filters, e.g. { "author": "jane" }'),
+      mode: z.enum(SEARCH_MODES).optional().describe('keyword (default), hybrid to also match by meaning, or semantic for meaning only'),
+      limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe('Results to return, 10 by default'),
+      offset: z.number().int().min(0).optional().describe('Results to skip, for the next page')
+    },
+    annotations: { readOnlyHint: true }
+  }, async ({ query, fileTypes, metadata, mode = 'keyword', limit, offset }) => {
+    if (!isReady()) {
+      return notReady();
+    }
+    console.log('MCP search requested:', query, 'mode:', mode);
+    try {
+      const searchOptions = { fileTypes, metadata, limit, offset };
+      const page = mode === 'keyword'
+        ? { ...searchIndex.searchPage(query, searchOptions), mode }
+        : await searchIndex.semanticSearchPage(query, { ...searchOptions, mode });
+      return textResult({
+        results: page.results.map(result => ({
+          path: result.path,
+          uri: documentUri(result.path),
+          filename: result.filename,
+          root: result.root,
+          size: result.size,
+          lastModified: new Date(result.lastModified).toISOString(),
+          score: result.score,
+          matchType: result.matchType,
+          snippets: result.snippets?.map(snippet => snippet.location ? { text: snippet.text, location: snippet.location } : { text: snippet.text })
+        })),
+        total: page.total,
+        hasMore: page.hasMore,
+        mode: page.mode
+      });
+    } catch (error) {
+      // An unreadable filter such as size:>big
+      if (error instanceof QuerySyntaxError) {
+        return errorResult(error.message);
+      }
+      throw error;
+    }
+  });
+
+  server.registerTool('read_file', {
+    title: 'Read a local file',
+    description: 'Read the text extracted from an indexed file, given its path as returned by search_files. PDFs can be read a few pages at a time.',
+    inputSchema: {
+      path: z.string().min(1).describe('Absolute path of an indexed file, or archive.zip!/member for a file inside an archive'),
+      pages: z.string().optional().describe('Page number or range of a PDF to read, such as 12 or 3-5')
+    },
+    annotations: { readOnlyHint: true }
+  }, async ({ path: filePath, pages }) => {
+    if (!isReady()) {
+      return notReady();
+    }
+    console.log('MCP read requested:', filePath, pages ? `pages: ${pages}` : '');
+    const servablePath = await resolveServablePath(filePath);
+    if (!servablePath) {
+      return errorResult(`Access denied: ${filePath} is not an indexed file inside the index roots`);
+    }
+    const pageRange = pages !== undefined ? parsePageRange(pages) : undefined;
+    if (pageRange === null) {
+      return errorResult('pages must be a page number or range such as 3-5');
+    }
+    try {
+      const file = await mcpService.readFile(servablePath, { pages: pageRange });
+      const truncated = file.content.length > MAX_READ_CHARS;
+      const text = truncated ? file.content.slice(0, MAX_READ_CHARS) : file.content;
+      const notes: string[] = [];
+      if (file.pages) {
+        notes.push(`Pages ${file.pages.from}-${file.pages.to} of ${file.pages.total}`);
+      }
+      if (truncated) {
+        notes.push(`Truncated to the first ${MAX_READ_CHARS} of ${file.content.length} characters; read fewer pages to see the rest`);
+      }
+      return { content: [{ type: 'text', text }, ...notes.map(note => ({ type: 'text' as const, text: note }))] };
+    } catch (error) {
+      // A page range past the end of the document
+      if (error instanceof RangeError) {
+        return errorResult(error.message);
+      }
+      throw error;
+    }
+  });
+
+  server.registerTool('list_roots', {
+    title: 'List index roots',
+    description: 'List the folders that are indexed for search.',
+    annotations: { readOnlyHint: true }
+  }, async () => {
+    return textResult({ roots: mcpService.getRoots(), totalFiles: searchIndex.getStats().totalFiles });
+  });
+
+  server.registerResource('documents', new ResourceTemplate('file://{+path}', {
+    list: async () => ({
+      resources: isReady()
+        ? searchIndex.listDocuments().map(document => ({
+          uri: documentUri(document.path),
+          name: document.filename,
+          title: document.metadata?.title,
+          description: document.path,
+          mimeType: 'text/plain'
+        }))
+        : []
+    })
+  }), {
+    title: 'Indexed documents',
+    description: 'Text extracted from the indexed files',
+    mimeType: 'text/plain'
+  }, async uri => {
+    const filePath = await resolveServablePath(fileURLToPath(uri));
+    const document = filePath ? searchIndex.getDocument(filePath) : undefined;
+    if (!document) {
+      throw new Error(`Access denied: ${uri.href} is not an indexed file inside the index roots`);
+    }
+    return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: document.content }] };
+  });
+
+  return server;
+}
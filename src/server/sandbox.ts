@@ -0,0 +1,19 @@
+import path from 'path';
+import { searchIndex } from '../services/search/index.js';
+import { mcpService } from '../services/mcp/index.js';
+
+/**
+ * The indexed path a client asked to read, or null when it may not be served:
+ * relative paths, paths not in the index (after `..` is resolved) and files
+ * whose real location, after following symlinks, is outside the index roots.
+ */
+export async function resolveServablePath(requestedPath: string): Promise<string | null> {
+  if (!path.isAbsolute(requestedPath)) {
+    return null;
+  }
+  const filePath = path.resolve(requestedPath);
+  if (!searchIndex.hasDocument(filePath)) {
+    return null;
+  }
+  return await mcpService.isInsideRoots(filePath) ? filePath : null;
+}
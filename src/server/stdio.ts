@@ -0,0 +1,53 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { searchIndex } from '../services/search/index.js';
+import { createMcpServer } from './mcp.js';
+
+let indexReady = false;
+let indexError: string | null = null; // Why the last index build failed
+
+// Bring the index up to date. A failed build leaves the server running with
+// the snapshot, if there was one; tools report the error and try again.
+function rebuildIndex(): void {
+  indexError = null;
+  searchIndex.buildIndex()
+    .then(() => {
+      console.log('Search index built successfully');
+      indexReady = true;
+    })
+    .catch(error => {
+      console.error('Failed to build search index:', error);
+      indexError = error instanceof Error ? error.message : String(error);
+    });
+}
+
+/**
+ * Serve the Model Context Protocol on stdin and stdout, for clients that
+ * start the server themselves. The index is loaded from the snapshot and
+ * brought up to date like the HTTP server's.
+ */
+export async function startStdioServer(): Promise<void> {
+  // stdout carries the protocol messages, so the services' logging goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  console.log('Initializing search index...');
+  const loaded = await searchIndex.loadSnapshot();
+  if (loaded) {
+    console.log('Serving the index snapshot while it is brought up to date');
+    indexReady = true;
+  }
+  searchIndex.startWatching();
+  rebuildIndex();
+
+  const server = createMcpServer({ isReady: () => indexReady, getIndexError: () => indexError, retryIndex: rebuildIndex });
+  await server.connect(new StdioServerTransport());
+  console.log('MCP server running on stdio');
+}
+
+// Start the server if this file is run directly
+if (import.meta.url === new URL(process.argv[1], 'file:').href) {
+  startStdioServer().catch(error => {
+    console.error('Failed to start MCP server:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,48 @@
+import { readEmailAttachments, splitMbox } from '../email.js';
+
+const message = (subject: string, body: string) =>
+  `From: jane@example.com\nSubject: ${subject}\n\n${body}\n`;
+
+describe('email containers', () => {
+  it('should split an mbox into messages and unescape From lines', () => {
+    const mbox = [
+      'From jane@example.com Tue Oct 15 09:30:00 2024',
+      message('First', '>From the start'),
+      'From bob@example.com Wed Oct 16 10:00:00 2024',
+      message('Second', 'Hello')
+    ].join('\n');
+
+    const parts = splitMbox(Buffer.from(mbox, 'latin1'), 0);
+    expect(parts.map(part => part.member.path)).toEqual(['message-0001.eml', 'message-0002.eml']);
+    expect(parts[0].data.toString('latin1')).toContain('\nFrom the start');
+    expect(parts[1].member.lastModified).toBe(new Date(2024, 9, 16, 10).getTime());
+  });
+
+  it('should list attachments with safe, unique names', async () => {
+    const email = [
+      'Subject: Files',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'See attached',
+      '--b1',
+      'Content-Type: text/plain; name="notes.txt"',
+      'Content-Disposition: attachment; filename="../../notes.txt"',
+      '',
+      'one',
+      '--b1',
+      'Content-Type: text/plain; name="notes.txt"',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      '',
+      'two',
+      '--b1--',
+      ''
+    ].join('\r\n');
+
+    const parts = await readEmailAttachments(Buffer.from(email, 'utf-8'), 0);
+    expect(parts.map(part => part.member.path)).toEqual(['notes.txt', '2-notes.txt']);
+    expect(parts[1].data.toString('utf-8')).toBe('two');
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import AdmZip from 'adm-zip';
+import { getContainingArchive, isVirtualPath, joinVirtualPath, listArchiveMembers, openArchiveMember, splitVirtualPath } from '../index.js';
+
+function tarHeader(name: string, size: number, type = '0'): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100);
+  header.write('0000644\0', 100);
+  header.write(size.toString(8).padStart(11, '0') + '\0', 124);
+  header.write('14410000000\0', 136);
+  header.write(type, 156);
+  header.write('ustar\0', 257);
+  return header;
+}
+
+function buildTar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content, 'utf-8');
+    blocks.push(tarHeader(name, data.length));
+    blocks.push(Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+describe('archives', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archives-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list and read ZIP members', async () => {
+    const zip = new AdmZip();
+    zip.addFile('reports/q3.txt', Buffer.from('Q3 revenue', 'utf-8'));
+    zip.addFile('reports/', Buffer.alloc(0));
+    const zipPath = path.join(tmpDir, 'bundle.zip');
+    zip.writeZip(zipPath);
+
+    const members = await listArchiveMembers(zipPath);
+    expect(members.map(member => member.path)).toEqual(['reports/q3.txt']);
+
+    const { member, read } = await openArchiveMember(joinVirtualPath(zipPath, 'reports/q3.txt'));
+    expect(member.size).toBe(10);
+    expect(read().toString('utf-8')).toBe('Q3 revenue');
+  });
+
+  it('should not inflate ZIP members past the size limit, whatever their header says', async () => {
+    const zip = new AdmZip();
+    zip.addFile('bomb.txt', Buffer.alloc(101 * 1024 * 1024));
+    const buffer = zip.toBuffer();
+    // Claim 1000 bytes in both the local and the central header
+    buffer.writeUInt32LE(1000, buffer.indexOf('PK\x03\x04', 0, 'latin1') + 22);
+    buffer.writeUInt32LE(1000, buffer.indexOf('PK\x01\x02', 0, 'latin1') + 24);
+    const zipPath = path.join(tmpDir, 'bomb.zip');
+    fs.writeFileSync(zipPath, buffer);
+
+    expect((await listArchiveMembers(zipPath)).map(member => member.size)).toEqual([1000]);
+    const { read } = await openArchiveMember(joinVirtualPath(zipPath, 'bomb.txt'));
+    expect(read).toThrow('too large');
+  });
+
+  it('should not read archives beyond the size limit', async () => {
+    const zipPath = path.join(tmpDir, 'huge.zip');
+    fs.closeSync(fs.openSync(zipPath, 'w'));
+    fs.truncateSync(zipPath, 513 * 1024 * 1024); // Sparse, so nothing is written
+
+    await expect(listArchiveMembers(zipPath)).rejects.toThrow('too large');
+  });
+
+  it('should list and read gzipped TAR members', async () => {
+    const tgzPath = path.join(tmpDir, 'docs.tar.gz');
+    fs.writeFileSync(tgzPath, gzipSync(buildTar({ 'notes.md': '# Notes', 'deep/plan.txt': 'Plan' })));
+
+    expect((await listArchiveMembers(tgzPath)).map(member => member.path)).toEqual(['notes.md', 'deep/plan.txt']);
+    const { read } = await openArchiveMember(joinVirtualPath(tgzPath, 'deep/plan.txt'));
+    expect(read().toString('utf-8')).toBe('Plan');
+  });
+
+  it('should open archives nested in archives', async () => {
+    const zip = new AdmZip();
+    zip.addFile('inner.tar', buildTar({ 'a.txt': 'nested' }));
+    const zipPath = path.join(tmpDir, 'outer.zip');
+    zip.writeZip(zipPath);
+
+    const innerPath = joinVirtualPath(zipPath, 'inner.tar');
+    expect((await listArchiveMembers(innerPath)).map(member => member.path)).toEqual(['a.txt']);
+
+    const memberPath = joinVirtualPath(innerPath, 'a.txt');
+    expect(getContainingArchive(memberPath)).toBe(innerPath);
+    expect((await openArchiveMember(memberPath)).read().toString('utf-8')).toBe('nested');
+  });
+
+  it('should only treat "!/" after an archive as a member separator', () => {
+    expect(isVirtualPath('/downloads/Important!/a.pdf')).toBe(false);
+    expect(getContainingArchive('/downloads/Important!/a.pdf')).toBeUndefined();
+    expect(splitVirtualPath('/downloads/Important!/a.pdf')).toEqual({ filePath: '/downloads/Important!/a.pdf', members: [] });
+
+    const memberPath = '/downloads/Important!/outer.zip!/Done!/inner.tar!/a.txt';
+    expect(isVirtualPath(memberPath)).toBe(true);
+    expect(splitVirtualPath(memberPath)).toEqual({ filePath: '/downloads/Important!/outer.zip', members: ['Done!/inner.tar', 'a.txt'] });
+    expect(getContainingArchive(memberPath)).toBe('/downloads/Important!/outer.zip!/Done!/inner.tar');
+  });
+
+  it('should leave out members that would escape the extraction folder', async () => {
+    const tarPath = path.join(tmpDir, 'unsafe.tar');
+    fs.writeFileSync(tarPath, buildTar({ '../evil.txt': 'x', 'ok.txt': 'y' }));
+
+    expect((await listArchiveMembers(tarPath)).map(member => member.path)).toEqual(['ok.txt']);
+    await expect(openArchiveMember(joinVirtualPath(tarPath, '../evil.txt'))).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,73 @@
+import path from 'path';
+import { simpleParser } from 'mailparser';
+import type { ArchiveMember } from './index.js';
+
+export interface EmailPart {
+  member: ArchiveMember;
+  data: Buffer;
+}
+
+// Attachment names come from the sender, so keep them to a plain file name
+function safeFileName(name: string): string {
+  const baseName = path.posix.basename(name.replace(/\\/g, '/'));
+  return Array.from(baseName).filter(char => char.charCodeAt(0) >= 0x20).join('').trim();
+}
+
+/**
+ * The attachments of a message as members, skipping images embedded in the
+ * HTML body. Attachments without a name are numbered.
+ */
+export async function readEmailAttachments(buffer: Buffer, lastModified: number): Promise<EmailPart[]> {
+  const parsed = await simpleParser(buffer, { skipHtmlToText: true, skipTextToHtml: true, skipImageLinks: true });
+  const messageTime = parsed.date && !isNaN(parsed.date.getTime()) ? parsed.date.getTime() : lastModified;
+  const usedNames = new Set<string>();
+
+  return parsed.attachments
+    .filter(attachment => !attachment.related)
+    .map((attachment, index) => {
+      const subtype = attachment.contentType.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+      let name = safeFileName(attachment.filename || '') || `attachment-${index + 1}.${subtype}`;
+      if (usedNames.has(name)) {
+        name = `${index + 1}-${name}`;
+      }
+      usedNames.add(name);
+      return {
+        member: { path: name, size: attachment.content.length, lastModified: messageTime },
+        data: attachment.content
+      };
+    });
+}
+
+/**
+ * Split an mbox file into its messages. Each message starts with a line
+ * beginning with "From "; ">From " lines inside a message are unescaped.
+ */
+export function splitMbox(buffer: Buffer, lastModified: number): EmailPart[] {
+  const text = buffer.toString('latin1');
+  const starts: number[] = [];
+  const separator = /^From .*$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    if (match.index === 0 || text[match.index - 1] === '\n') {
+      starts.push(match.index);
+    }
+  }
+
+  return starts.map((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1] : text.length;
+    const fromLineEnd = text.indexOf('\n', start);
+    const fromLine = text.substring(start, fromLineEnd === -1 ? end : fromLineEnd);
+    const body = fromLineEnd === -1 ? '' : text.substring(fromLineEnd + 1, end).replace(/^>(>*From )/gm, '$1');
+    // "From sender@example.com Mon Jan  1 10:00:00 2024"
+    const sentAt = Date.parse(fromLine.replace(/^From \S+\s+/, ''));
+    const data = Buffer.from(body, 'latin1');
+    return {
+      member: {
+        path: `message-${String(index + 1).padStart(4, '0')}.eml`,
+        size: data.length,
+        lastModified: isNaN(sentAt) ? lastModified : sentAt
+      },
+      data
+    };
+  });
+}
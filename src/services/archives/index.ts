@@ -0,0 +1,281 @@
+import path from 'path';
+import { gunzipSync, inflateRawSync } from 'zlib';
+import { readFile as fsReadFile, stat as fsStat } from 'fs/promises';
+import AdmZip from 'adm-zip';
+import type { IZipEntry } from 'adm-zip';
+import { readTarEntries } from './tar.js';
+import { readEmailAttachments, splitMbox } from './email.js';
+import type { EmailPart } from './email.js';
+
+// Separates an archive from a member inside it: bundle.zip!/reports/q3.pdf.
+// Emails are treated as archives of their attachments and mailboxes as
+// archives of their messages.
+export const ARCHIVE_SEPARATOR = '!/';
+
+// Archives inside archives are opened up to this depth
+export const MAX_ARCHIVE_DEPTH = 3;
+
+// Archives on disk larger than this are read whole, so they are skipped
+const MAX_ARCHIVE_SIZE = 512 * 1024 * 1024;
+
+// Members that inflate beyond this are listed but never read
+const MAX_MEMBER_SIZE = 100 * 1024 * 1024;
+const MAX_MEMBERS = 10000;
+const MAX_INFLATED_TAR_SIZE = 512 * 1024 * 1024;
+
+export type ArchiveKind = 'zip' | 'tar' | 'tar.gz' | 'gzip' | 'eml' | 'mbox';
+
+export interface ArchiveMember {
+  path: string; // Path inside the archive, always with forward slashes
+  size: number; // Uncompressed size
+  lastModified: number;
+}
+
+interface OpenedArchive {
+  members: ArchiveMember[];
+  read(memberPath: string): Buffer;
+}
+
+export function getArchiveKind(filePath: string): ArchiveKind | null {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.zip')) return 'zip';
+  if (lower.endsWith('.tar')) return 'tar';
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tar.gz';
+  if (lower.endsWith('.gz')) return 'gzip';
+  if (lower.endsWith('.eml')) return 'eml';
+  if (lower.endsWith('.mbox')) return 'mbox';
+  return null;
+}
+
+export function isArchivePath(filePath: string): boolean {
+  return getArchiveKind(filePath) !== null;
+}
+
+// Offsets of the separators in a virtual path. A "!/" only separates an
+// archive from its member when what precedes it is an archive; a folder such
+// as Important!/ is part of a plain path.
+function findSeparators(filePath: string): number[] {
+  const separators: number[] = [];
+  for (let index = filePath.indexOf(ARCHIVE_SEPARATOR); index !== -1; index = filePath.indexOf(ARCHIVE_SEPARATOR, index + 1)) {
+    if (isArchivePath(filePath.substring(0, index))) {
+      separators.push(index);
+    }
+  }
+  return separators;
+}
+
+export function isVirtualPath(filePath: string): boolean {
+  return findSeparators(filePath).length > 0;
+}
+
+export function joinVirtualPath(archivePath: string, memberPath: string): string {
+  return `${archivePath}${ARCHIVE_SEPARATOR}${memberPath}`;
+}
+
+/**
+ * Split a virtual path into the file on disk and the chain of members leading
+ * to the file, outermost first: a.zip!/b.tar!/c.pdf gives a.zip, [b.tar, c.pdf].
+ */
+export function splitVirtualPath(virtualPath: string): { filePath: string; members: string[] } {
+  const separators = findSeparators(virtualPath);
+  const starts = [0, ...separators.map(index => index + ARCHIVE_SEPARATOR.length)];
+  const [filePath, ...members] = starts.map((start, i) => virtualPath.substring(start, separators[i] ?? virtualPath.length));
+  return { filePath, members };
+}
+
+/**
+ * The archive a virtual path points into, itself possibly virtual.
+ */
+export function getContainingArchive(virtualPath: string): string | undefined {
+  const index = findSeparators(virtualPath).pop();
+  return index === undefined ? undefined : virtualPath.substring(0, index);
+}
+
+// Reject absolute paths and parent references so a member can never be
+// written outside the directory it is extracted to
+function isSafeMemberPath(memberPath: string): boolean {
+  return memberPath.length > 0 &&
+    !memberPath.startsWith('/') &&
+    !/^[a-zA-Z]:/.test(memberPath) &&
+    !memberPath.split('/').includes('..');
+}
+
+function normalizeMemberPath(name: string): string {
+  return name.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+// Deflate and stored entries are inflated here, with the output capped,
+// rather than trusting the size the entry's header declares
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+function inflateZipEntry(entry: IZipEntry): Buffer {
+  const { method, flags } = entry.header;
+  const encrypted = (flags & 1) !== 0;
+  let data: Buffer;
+  try {
+    data = encrypted || (method !== ZIP_STORED && method !== ZIP_DEFLATED)
+      ? entry.getData()
+      : method === ZIP_STORED
+        ? entry.getCompressedData()
+        : inflateRawSync(entry.getCompressedData(), { maxOutputLength: MAX_MEMBER_SIZE + 1 });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`${entry.entryName} is too large to extract`);
+    }
+    throw error;
+  }
+  if (data.length > MAX_MEMBER_SIZE) {
+    throw new Error(`${entry.entryName} is too large to extract`);
+  }
+  return data;
+}
+
+function openZip(buffer: Buffer): OpenedArchive {
+  const zip = new AdmZip(buffer);
+  const entries = zip.getEntries().filter(entry => !entry.isDirectory);
+  return {
+    members: entries.map(entry => ({
+      path: normalizeMemberPath(entry.entryName),
+      size: entry.header.size,
+      lastModified: entry.header.time.getTime()
+    })),
+    read(memberPath) {
+      const entry = entries.find(candidate => normalizeMemberPath(candidate.entryName) === memberPath);
+      if (!entry) {
+        throw new Error(`${memberPath} not found in archive`);
+      }
+      return inflateZipEntry(entry);
+    }
+  };
+}
+
+function openTar(buffer: Buffer): OpenedArchive {
+  const entries = readTarEntries(buffer).filter(entry => entry.type === 'file');
+  return {
+    members: entries.map(entry => ({
+      path: normalizeMemberPath(entry.name),
+      size: entry.size,
+      lastModified: entry.mtime
+    })),
+    read(memberPath) {
+      const entry = entries.find(candidate => normalizeMemberPath(candidate.name) === memberPath);
+      if (!entry) {
+        throw new Error(`${memberPath} not found in archive`);
+      }
+      return buffer.subarray(entry.offset, entry.offset + entry.size);
+    }
+  };
+}
+
+function openGzip(buffer: Buffer, archivePath: string, lastModified: number): OpenedArchive {
+  // A plain .gz holds a single file named after the archive
+  const memberPath = path.basename(archivePath).replace(/\.gz$/i, '');
+  const data = gunzipSync(buffer, { maxOutputLength: MAX_MEMBER_SIZE });
+  return {
+    members: [{ path: memberPath, size: data.length, lastModified }],
+    read(requested) {
+      if (requested !== memberPath) {
+        throw new Error(`${requested} not found in archive`);
+      }
+      return data;
+    }
+  };
+}
+
+function openParts(parts: EmailPart[]): OpenedArchive {
+  return {
+    members: parts.map(part => part.member),
+    read(memberPath) {
+      const part = parts.find(candidate => candidate.member.path === memberPath);
+      if (!part) {
+        throw new Error(`${memberPath} not found in archive`);
+      }
+      return part.data;
+    }
+  };
+}
+
+async function openArchiveBuffer(buffer: Buffer, archivePath: string, lastModified: number): Promise<OpenedArchive> {
+  switch (getArchiveKind(archivePath)) {
+    case 'zip':
+      return openZip(buffer);
+    case 'tar':
+      return openTar(buffer);
+    case 'tar.gz':
+      return openTar(gunzipSync(buffer, { maxOutputLength: MAX_INFLATED_TAR_SIZE }));
+    case 'gzip':
+      return openGzip(buffer, archivePath, lastModified);
+    case 'eml':
+      return openParts(await readEmailAttachments(buffer, lastModified));
+    case 'mbox':
+      return openParts(splitMbox(buffer, lastModified));
+    default:
+      throw new Error(`${archivePath} is not a supported archive`);
+  }
+}
+
+// Indexing reads the members of one archive after another, so keeping the
+// most recently opened archive avoids re-reading and re-inflating it per member
+let lastOpened: { key: string; archive: OpenedArchive } | null = null;
+
+async function openArchive(archivePath: string): Promise<OpenedArchive> {
+  const { filePath, members } = splitVirtualPath(archivePath);
+  const stats = await fsStat(filePath);
+  const key = `${archivePath}:${stats.size}:${stats.mtimeMs}`;
+  if (lastOpened?.key === key) {
+    return lastOpened.archive;
+  }
+  if (stats.size > MAX_ARCHIVE_SIZE) {
+    throw new Error(`${filePath} is too large to open as an archive`);
+  }
+
+  let buffer = await fsReadFile(filePath);
+  let containerPath = filePath;
+  let lastModified = stats.mtime.getTime();
+  for (const memberPath of members) {
+    const container = await openArchiveBuffer(buffer, containerPath, lastModified);
+    lastModified = container.members.find(member => member.path === memberPath)?.lastModified ?? lastModified;
+    buffer = container.read(memberPath);
+    containerPath = memberPath;
+  }
+
+  const archive = await openArchiveBuffer(buffer, containerPath, lastModified);
+  lastOpened = { key, archive };
+  return archive;
+}
+
+/**
+ * List the files inside an archive on disk or inside another archive.
+ * Directories, unsafe paths and members beyond the size limits are left out.
+ */
+export async function listArchiveMembers(archivePath: string): Promise<ArchiveMember[]> {
+  const archive = await openArchive(archivePath);
+  const members = archive.members.filter(member => isSafeMemberPath(member.path) && member.size <= MAX_MEMBER_SIZE);
+  if (members.length > MAX_MEMBERS) {
+    console.warn(`${archivePath} has ${members.length} members, only indexing the first ${MAX_MEMBERS}`);
+    return members.slice(0, MAX_MEMBERS);
+  }
+  return members;
+}
+
+/**
+ * Look up a file inside an archive given its virtual path. The member data is
+ * only inflated when `read()` is called.
+ */
+export async function openArchiveMember(virtualPath: string): Promise<{ member: ArchiveMember; read: () => Buffer }> {
+  const archivePath = getContainingArchive(virtualPath);
+  if (!archivePath) {
+    throw new Error(`${virtualPath} is not inside an archive`);
+  }
+  const memberPath = virtualPath.substring(archivePath.length + ARCHIVE_SEPARATOR.length);
+  const archive = await openArchive(archivePath);
+  const member = archive.members.find(candidate => candidate.path === memberPath);
+  if (!member || !isSafeMemberPath(memberPath)) {
+    throw new Error(`${memberPath} not found in ${archivePath}`);
+  }
+  if (member.size > MAX_MEMBER_SIZE) {
+    throw new Error(`${memberPath} is too large to extract`);
+  }
+  return { member, read: () => archive.read(memberPath) };
+}
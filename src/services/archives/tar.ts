@@ -0,0 +1,109 @@
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  mtime: number; // Milliseconds since the epoch
+  type: 'file' | 'directory' | 'other';
+  offset: number; // Where the entry's data starts in the archive
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readNumber(block: Buffer, start: number, length: number): number {
+  // GNU tar stores values that overflow the octal field as big-endian base-256
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+  const octal = readString(block, start, length).trim();
+  return octal ? parseInt(octal, 8) : 0;
+}
+
+function parsePaxHeaders(data: Buffer): Record<string, string> {
+  // Records look like "30 path=some/long/file/name\n"
+  const headers: Record<string, string> = {};
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(position, space).toString('utf-8'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, position + length - 1).toString('utf-8');
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      headers[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    position += length;
+  }
+  return headers;
+}
+
+function isZeroBlock(block: Buffer): boolean {
+  return block.every(byte => byte === 0);
+}
+
+/**
+ * List the entries of an uncompressed tar archive (ustar, GNU and pax). The
+ * data of an entry is `buffer.subarray(entry.offset, entry.offset + entry.size)`.
+ */
+export function readTarEntries(buffer: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let position = 0;
+  let longName: string | null = null;
+  let paxHeaders: Record<string, string> = {};
+
+  while (position + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(position, position + BLOCK_SIZE);
+    if (isZeroBlock(header)) {
+      break;
+    }
+
+    const size = readNumber(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const dataOffset = position + BLOCK_SIZE;
+    position = dataOffset + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+    if (dataOffset + size > buffer.length) {
+      throw new Error('Truncated tar archive');
+    }
+
+    // GNU long names and pax headers describe the entry that follows them
+    if (typeFlag === 'L') {
+      longName = readString(buffer, dataOffset, size);
+      continue;
+    }
+    if (typeFlag === 'x') {
+      paxHeaders = parsePaxHeaders(buffer.subarray(dataOffset, dataOffset + size));
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    let name = readString(header, 0, 100);
+    const prefix = header.subarray(257, 262).toString('utf-8') === 'ustar' ? readString(header, 345, 155) : '';
+    if (prefix) {
+      name = `${prefix}/${name}`;
+    }
+    name = paxHeaders.path ?? longName ?? name;
+
+    entries.push({
+      name,
+      size,
+      mtime: paxHeaders.mtime ? Math.round(parseFloat(paxHeaders.mtime) * 1000) : readNumber(header, 136, 12) * 1000,
+      type: typeFlag === '0' || typeFlag === '7' ? 'file' : typeFlag === '5' ? 'directory' : 'other',
+      offset: dataOffset
+    });
+    longName = null;
+    paxHeaders = {};
+  }
+
+  return entries;
+}
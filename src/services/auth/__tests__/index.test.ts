@@ -0,0 +1,42 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadOrCreateToken, readToken, tokensMatch } from '../index.js';
+
+describe('auth token', () => {
+  let tmpDir: string;
+  let tokenPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+    tokenPath = path.join(tmpDir, 'data', 'auth-token');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should generate a token readable only by the user on first start', async () => {
+    const token = await loadOrCreateToken(tokenPath);
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+    expect(readToken(tokenPath)).toBe(token);
+  });
+
+  it('should keep the token across starts and tighten loose permissions', async () => {
+    const token = await loadOrCreateToken(tokenPath);
+    fs.chmodSync(tokenPath, 0o644);
+    expect(await loadOrCreateToken(tokenPath)).toBe(token);
+    expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should give clients no token before the server first started', () => {
+    expect(readToken(tokenPath)).toBeNull();
+  });
+
+  it('should compare tokens exactly', () => {
+    expect(tokensMatch('abc', 'abc')).toBe(true);
+    expect(tokensMatch('abc', 'abd')).toBe(false);
+    expect(tokensMatch('abc', 'ab')).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { chmod, mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { getDataDir } from '../config/index.js';
+
+// 256 bits, hex-encoded
+const TOKEN_BYTES = 32;
+
+export function getTokenPath(): string {
+  return path.join(getDataDir(), 'auth-token');
+}
+
+/**
+ * The secret clients of the HTTP server send as a bearer token, generated on
+ * first start. It lives in the data directory, readable only by the user.
+ */
+export async function loadOrCreateToken(tokenPath: string = getTokenPath()): Promise<string> {
+  try {
+    const token = (await readFile(tokenPath, 'utf-8')).trim();
+    if (token) {
+      // Tighten a token file whose permissions were loosened since
+      if (process.platform !== 'win32' && ((await stat(tokenPath)).mode & 0o077) !== 0) {
+        console.warn(`Restricting permissions of ${tokenPath} to the current user`);
+        await chmod(tokenPath, 0o600);
+      }
+      return token;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  console.log(`Generating an authentication token in ${tokenPath}`);
+  await mkdir(path.dirname(tokenPath), { recursive: true, mode: 0o700 });
+  const token = randomBytes(TOKEN_BYTES).toString('hex');
+  try {
+    // wx: a server started at the same moment may have just written one
+    await writeFile(tokenPath, token + '\n', { mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return loadOrCreateToken(tokenPath);
+    }
+    throw error;
+  }
+  // writeFile's mode is filtered by the umask; make sure it is exactly 0600
+  await chmod(tokenPath, 0o600);
+  return token;
+}
+
+/**
+ * The token for talking to a running server, or null before the server first
+ * started. For clients, which only read it.
+ */
+export function readToken(tokenPath: string = getTokenPath()): string | null {
+  try {
+    return fs.readFileSync(tokenPath, 'utf-8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+// Compare in constant time, so the token cannot be guessed a character at a time
+export function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
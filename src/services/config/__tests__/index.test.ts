@@ -0,0 +1,70 @@
+import os from 'os';
+import path from 'path';
+import { parseConfig, isPathIncluded, findRootForPath } from '../index.js';
+import type { IndexRoot } from '../index.js';
+
+describe('config', () => {
+  const baseRoot: IndexRoot = {
+    name: 'Docs',
+    path: '/docs',
+    include: [],
+    exclude: [],
+    maxDepth: null,
+    includeHidden: false
+  };
+
+  describe('parseConfig', () => {
+    it('should apply defaults and expand the home directory', () => {
+      const config = parseConfig({ roots: [{ path: '~/Documents' }] });
+      expect(config.roots[0]).toEqual({
+        name: 'Documents',
+        path: path.join(os.homedir(), 'Documents'),
+        include: [],
+        exclude: ['**/node_modules/**', '**/.git/**'],
+        maxDepth: null,
+        includeHidden: false
+      });
+      expect(config.extractors).toEqual([]);
+    });
+
+    it('should reject invalid roots', () => {
+      expect(() => parseConfig({ roots: [] })).toThrow('roots must be a non-empty array');
+      expect(() => parseConfig({ roots: [{ path: '/a', maxDepth: -1 }] })).toThrow('roots[0].maxDepth');
+      expect(() => parseConfig({ roots: [{ path: '/a', include: 'x' }] })).toThrow('roots[0].include');
+    });
+
+    it('should reject duplicate root names', () => {
+      expect(() => parseConfig({ roots: [{ path: '/a/docs' }, { path: '/b/docs' }] })).toThrow('Duplicate root name');
+    });
+  });
+
+  describe('isPathIncluded', () => {
+    it('should skip hidden files unless enabled', () => {
+      expect(isPathIncluded(baseRoot, '.secret/notes.txt')).toBe(false);
+      expect(isPathIncluded({ ...baseRoot, includeHidden: true }, '.secret/notes.txt')).toBe(true);
+    });
+
+    it('should honour max depth', () => {
+      const root = { ...baseRoot, maxDepth: 1 };
+      expect(isPathIncluded(root, 'a.txt')).toBe(true);
+      expect(isPathIncluded(root, 'x/a.txt')).toBe(true);
+      expect(isPathIncluded(root, 'x/y/a.txt')).toBe(false);
+    });
+
+    it('should apply include then exclude globs', () => {
+      const root = { ...baseRoot, include: ['**/*.pdf'], exclude: ['drafts/**'] };
+      expect(isPathIncluded(root, 'contracts/a.pdf')).toBe(true);
+      expect(isPathIncluded(root, 'contracts/a.txt')).toBe(false);
+      expect(isPathIncluded(root, 'drafts/a.pdf')).toBe(false);
+    });
+  });
+
+  describe('findRootForPath', () => {
+    it('should prefer the most specific root', () => {
+      const roots = [baseRoot, { ...baseRoot, name: 'Contracts', path: '/docs/contracts' }];
+      expect(findRootForPath(roots, '/docs/contracts/a.pdf')?.name).toBe('Contracts');
+      expect(findRootForPath(roots, '/docs/a.pdf')?.name).toBe('Docs');
+      expect(findRootForPath(roots, '/elsewhere/a.pdf')).toBeUndefined();
+    });
+  });
+});
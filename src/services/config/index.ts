@@ -0,0 +1,221 @@
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import { minimatch } from 'minimatch';
+
+export interface IndexRoot {
+  name: string;
+  path: string;
+  include: string[];      // Glob patterns relative to the root; empty means "everything"
+  exclude: string[];      // Glob patterns relative to the root, checked after include
+  maxDepth: number | null; // Directory depth below the root, null for unlimited
+  includeHidden: boolean; // Whether dot-files and dot-folders are indexed
+}
+
+export interface SearchConfig {
+  roots: IndexRoot[];
+  extractors: string[]; // Paths of modules exporting additional content extractors
+}
+
+const DEFAULT_EXCLUDES = ['**/node_modules/**', '**/.git/**'];
+
+function expandHome(inputPath: string): string {
+  if (inputPath === '~') {
+    return os.homedir();
+  }
+  if (inputPath.startsWith('~/')) {
+    return path.join(os.homedir(), inputPath.slice(2));
+  }
+  return inputPath;
+}
+
+/**
+ * Directory holding the config file and any other per-install state.
+ * Can be overridden with SEARCH_LOCAL_FILES_HOME.
+ */
+export function getDataDir(): string {
+  const override = process.env.SEARCH_LOCAL_FILES_HOME;
+  if (override) {
+    return path.resolve(expandHome(override));
+  }
+  return path.join(os.homedir(), '.search-local-files');
+}
+
+export function getConfigPath(): string {
+  const override = process.env.SEARCH_LOCAL_FILES_CONFIG;
+  if (override) {
+    return path.resolve(expandHome(override));
+  }
+  return path.join(getDataDir(), 'config.json');
+}
+
+export function getDefaultConfig(): SearchConfig {
+  return {
+    roots: [
+      {
+        name: 'Downloads',
+        path: path.join(os.homedir(), 'Downloads'),
+        include: [],
+        exclude: [...DEFAULT_EXCLUDES],
+        maxDepth: null,
+        includeHidden: false
+      }
+    ],
+    extractors: []
+  };
+}
+
+function asStringArray(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  return value;
+}
+
+function parseRoot(raw: unknown, index: number): IndexRoot {
+  const field = `roots[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${field} must be an object`);
+  }
+  const root = raw as Record<string, unknown>;
+
+  if (typeof root.path !== 'string' || root.path.trim().length === 0) {
+    throw new Error(`${field}.path must be a non-empty string`);
+  }
+  const rootPath = path.resolve(expandHome(root.path));
+
+  if (root.name !== undefined && typeof root.name !== 'string') {
+    throw new Error(`${field}.name must be a string`);
+  }
+
+  if (root.maxDepth !== undefined && root.maxDepth !== null &&
+      (typeof root.maxDepth !== 'number' || !Number.isInteger(root.maxDepth) || root.maxDepth < 0)) {
+    throw new Error(`${field}.maxDepth must be a non-negative integer or null`);
+  }
+
+  if (root.includeHidden !== undefined && typeof root.includeHidden !== 'boolean') {
+    throw new Error(`${field}.includeHidden must be a boolean`);
+  }
+
+  return {
+    name: (root.name as string | undefined) || path.basename(rootPath),
+    path: rootPath,
+    include: asStringArray(root.include, `${field}.include`),
+    exclude: root.exclude === undefined ? [...DEFAULT_EXCLUDES] : asStringArray(root.exclude, `${field}.exclude`),
+    maxDepth: (root.maxDepth as number | null | undefined) ?? null,
+    includeHidden: (root.includeHidden as boolean | undefined) ?? false
+  };
+}
+
+export function parseConfig(raw: unknown): SearchConfig {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Configuration must be a JSON object');
+  }
+  const { roots, extractors } = raw as { roots?: unknown; extractors?: unknown };
+  if (!Array.isArray(roots) || roots.length === 0) {
+    throw new Error('roots must be a non-empty array');
+  }
+
+  const parsedRoots = roots.map((root, index) => parseRoot(root, index));
+  const names = new Set<string>();
+  for (const root of parsedRoots) {
+    if (names.has(root.name)) {
+      throw new Error(`Duplicate root name "${root.name}"`);
+    }
+    names.add(root.name);
+  }
+
+  return {
+    roots: parsedRoots,
+    extractors: asStringArray(extractors, 'extractors').map(modulePath => path.resolve(expandHome(modulePath)))
+  };
+}
+
+/**
+ * Load the index configuration, falling back to the Downloads folder when
+ * no config file exists. A config file that exists but is invalid throws.
+ */
+export function loadConfig(configPath: string = getConfigPath()): SearchConfig {
+  if (!fs.existsSync(configPath)) {
+    console.log(`No config file at ${configPath}, indexing Downloads by default`);
+    return getDefaultConfig();
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    const config = parseConfig(raw);
+    console.log(`Loaded ${config.roots.length} index roots from ${configPath}`);
+    return config;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid configuration in ${configPath}: ${message}`);
+  }
+}
+
+function isHiddenPath(relativePath: string): boolean {
+  return relativePath.split(path.sep).some(segment => segment.startsWith('.'));
+}
+
+/**
+ * Check a path relative to its root against the root's hidden-file, depth,
+ * include and exclude rules.
+ */
+export function isPathIncluded(root: IndexRoot, relativePath: string): boolean {
+  if (!relativePath || relativePath.startsWith('..')) {
+    return false;
+  }
+  if (!root.includeHidden && isHiddenPath(relativePath)) {
+    return false;
+  }
+  // A file directly inside the root is at depth 0
+  const depth = relativePath.split(path.sep).length - 1;
+  if (root.maxDepth !== null && depth > root.maxDepth) {
+    return false;
+  }
+
+  const globPath = relativePath.split(path.sep).join('/');
+  const globOptions = { dot: true, matchBase: false };
+  if (root.include.length > 0 && !root.include.some(pattern => minimatch(globPath, pattern, globOptions))) {
+    return false;
+  }
+  return !root.exclude.some(pattern => minimatch(globPath, pattern, globOptions));
+}
+
+/**
+ * Check whether a directory relative to its root can be skipped entirely
+ * because nothing below it could be included.
+ */
+export function isDirectoryPruned(root: IndexRoot, relativePath: string): boolean {
+  if (!relativePath) {
+    return false;
+  }
+  if (!root.includeHidden && isHiddenPath(relativePath)) {
+    return true;
+  }
+  // Files inside a directory with N segments sit at depth N
+  if (root.maxDepth !== null && relativePath.split(path.sep).length > root.maxDepth) {
+    return true;
+  }
+  const globPath = relativePath.split(path.sep).join('/');
+  return root.exclude.some(pattern => minimatch(globPath, pattern, { dot: true }));
+}
+
+/**
+ * Find the root a path belongs to. When roots are nested the most specific
+ * (longest) root wins.
+ */
+export function findRootForPath(roots: IndexRoot[], filePath: string): IndexRoot | undefined {
+  let best: IndexRoot | undefined;
+  for (const root of roots) {
+    const relative = path.relative(root.path, filePath);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      if (!best || root.path.length > best.path.length) {
+        best = root;
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WordPieceTokenizer } from '../wordpiece.js';
+
+describe('WordPieceTokenizer', () => {
+  const tokens = ['[PAD]', '[UNK]', '[CLS]', '[SEP]', 'the', 'quarter', '##ly', 'report', 'cafe', ',', '!', '中', '文'];
+  const vocab = new Map(tokens.map((token, id) => [token, id]));
+  const tokenizer = new WordPieceTokenizer(vocab);
+
+  it('should split words into the longest vocabulary pieces', () => {
+    expect(tokenizer.tokenize('The Quarterly report!')).toEqual(['the', 'quarter', '##ly', 'report', '!']);
+  });
+
+  it('should strip accents and separate punctuation and Chinese characters', () => {
+    expect(tokenizer.tokenize('Café,中文')).toEqual(['cafe', ',', '中', '文']);
+  });
+
+  it('should treat a word with an unknown piece as unknown', () => {
+    expect(tokenizer.tokenize('quarterback report')).toEqual(['[UNK]', 'report']);
+  });
+
+  it('should wrap input in [CLS] and [SEP] and cut it to length', () => {
+    expect(tokenizer.encode('the report')).toEqual({
+      inputIds: [2, 4, 7, 3],
+      attentionMask: [1, 1, 1, 1],
+      tokenTypeIds: [0, 0, 0, 0]
+    });
+    expect(tokenizer.encode('the the the the', 4).inputIds).toEqual([2, 4, 4, 3]);
+    expect(tokenizer.padId).toBe(0);
+  });
+
+  it('should load a tokenizer.json and refuse other models', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wordpiece-test-'));
+    try {
+      const tokenizerPath = path.join(tmpDir, 'tokenizer.json');
+      fs.writeFileSync(tokenizerPath, JSON.stringify({ model: { type: 'WordPiece', vocab: Object.fromEntries(vocab) }, normalizer: { lowercase: true } }));
+      expect((await WordPieceTokenizer.load(tokenizerPath)).tokenize('Report')).toEqual(['report']);
+
+      fs.writeFileSync(tokenizerPath, JSON.stringify({ model: { type: 'BPE', vocab: {} } }));
+      await expect(WordPieceTokenizer.load(tokenizerPath)).rejects.toThrow('not a WordPiece tokenizer');
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require the special tokens', () => {
+    expect(() => new WordPieceTokenizer(new Map([['[UNK]', 0]]))).toThrow('[CLS]');
+  });
+});
@@ -0,0 +1,134 @@
+import path from 'path';
+import { access } from 'fs/promises';
+import type { InferenceSession } from 'onnxruntime-node';
+import { WordPieceTokenizer } from './wordpiece.js';
+
+export { WordPieceTokenizer } from './wordpiece.js';
+
+/**
+ * Turns text into unit-length vectors whose dot product is their cosine
+ * similarity.
+ */
+export interface Embedder {
+  readonly model: string;      // Identifies the vectors, so ones from another model are not mixed in
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export const EMBEDDING_MODEL = 'all-MiniLM-L6-v2';
+const MODEL_FILE = `${EMBEDDING_MODEL}.onnx`;
+const TOKENIZER_FILE = 'bert-base-uncased.json';
+
+// The model was trained on inputs of up to 256 word pieces
+const MAX_SEQUENCE_LENGTH = 256;
+
+/**
+ * Where the model files live: `assets/` of the checkout, filled by
+ * `node scripts/download-models.js`, or SEARCH_LOCAL_FILES_MODELS if set.
+ */
+export function getModelsDir(): string {
+  return process.env.SEARCH_LOCAL_FILES_MODELS
+    ? path.resolve(process.env.SEARCH_LOCAL_FILES_MODELS)
+    : path.join(process.cwd(), 'assets');
+}
+
+/**
+ * Sentence embeddings from the MiniLM ONNX model, run on the CPU: the
+ * token vectors are averaged over the real (unpadded) tokens and normalised.
+ */
+class OnnxEmbedder implements Embedder {
+  public readonly model = EMBEDDING_MODEL;
+
+  private constructor(
+    private readonly session: InferenceSession,
+    private readonly tokenizer: WordPieceTokenizer,
+    private readonly tensor: typeof import('onnxruntime-node').Tensor,
+    public readonly dimensions: number
+  ) {}
+
+  public static async load(modelsDir: string): Promise<OnnxEmbedder> {
+    // Loaded on demand so the native runtime is only needed once semantic search is used
+    const ort = await import('onnxruntime-node');
+    const tokenizer = await WordPieceTokenizer.load(path.join(modelsDir, TOKENIZER_FILE));
+    const session = await ort.InferenceSession.create(path.join(modelsDir, MODEL_FILE), {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all'
+    });
+    const embedder = new OnnxEmbedder(session, tokenizer, ort.Tensor, 0);
+    const [probe] = await embedder.run(['dimensions']);
+    return new OnnxEmbedder(session, tokenizer, ort.Tensor, probe.length);
+  }
+
+  public async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.length > 0 ? this.run(texts) : [];
+  }
+
+  private async run(texts: string[]): Promise<Float32Array[]> {
+    const encoded = texts.map(text => this.tokenizer.encode(text, MAX_SEQUENCE_LENGTH));
+    const sequenceLength = Math.max(...encoded.map(input => input.inputIds.length));
+    const batch = encoded.length;
+
+    // Pad every input of the batch to the longest one
+    const tensorOf = (pick: (input: typeof encoded[number]) => number[], pad: number) => {
+      const data = new BigInt64Array(batch * sequenceLength).fill(BigInt(pad));
+      encoded.forEach((input, row) => pick(input).forEach((value, column) => {
+        data[row * sequenceLength + column] = BigInt(value);
+      }));
+      return new this.tensor('int64', data, [batch, sequenceLength]);
+    };
+    const feeds: Record<string, InstanceType<typeof this.tensor>> = {
+      input_ids: tensorOf(input => input.inputIds, this.tokenizer.padId),
+      attention_mask: tensorOf(input => input.attentionMask, 0)
+    };
+    if (this.session.inputNames.includes('token_type_ids')) {
+      feeds.token_type_ids = tensorOf(input => input.tokenTypeIds, 0);
+    }
+
+    const output = (await this.session.run(feeds))[this.session.outputNames[0]];
+    const hidden = output.dims[2];
+    const values = output.data as Float32Array;
+
+    return encoded.map((input, row) => {
+      const vector = new Float32Array(hidden);
+      const tokens = input.inputIds.length;
+      for (let token = 0; token < tokens; token++) {
+        const offset = (row * sequenceLength + token) * hidden;
+        for (let i = 0; i < hidden; i++) {
+          vector[i] += values[offset + i];
+        }
+      }
+      return normalize(vector.map(value => value / tokens));
+    });
+  }
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Load the embedding model, or return null when its files have not been
+ * downloaded so search carries on with keywords only.
+ */
+export async function loadEmbedder(modelsDir: string = getModelsDir()): Promise<Embedder | null> {
+  try {
+    await access(path.join(modelsDir, MODEL_FILE));
+    await access(path.join(modelsDir, TOKENIZER_FILE));
+  } catch {
+    console.log(`Semantic search is off: no embedding model in ${modelsDir}. Run \`node scripts/download-models.js\` to download it.`);
+    return null;
+  }
+  try {
+    const embedder = await OnnxEmbedder.load(modelsDir);
+    console.log(`Loaded embedding model ${embedder.model} (${embedder.dimensions} dimensions)`);
+    return embedder;
+  } catch (error) {
+    console.error('Could not load the embedding model, semantic search is off:', error);
+    return null;
+  }
+}
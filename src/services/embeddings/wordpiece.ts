@@ -0,0 +1,160 @@
+import { readFile } from 'fs/promises';
+
+export interface EncodedText {
+  inputIds: number[];
+  attentionMask: number[];
+  tokenTypeIds: number[];
+}
+
+// The parts of a Hugging Face tokenizer.json a BERT WordPiece tokenizer needs
+interface TokenizerJson {
+  model: {
+    type: string;
+    vocab: Record<string, number>;
+    unk_token?: string;
+    continuing_subword_prefix?: string;
+    max_input_chars_per_word?: number;
+  };
+  normalizer?: {
+    lowercase?: boolean;
+  } | null;
+}
+
+function isPunctuation(char: string): boolean {
+  const code = char.charCodeAt(0);
+  // BERT also treats all non-letter/number ASCII symbols such as $ and ^ as punctuation
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) || (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+}
+
+function isCjk(code: number): boolean {
+  return (code >= 0x4e00 && code <= 0x9fff) || (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x20000 && code <= 0x2a6df) || (code >= 0x2a700 && code <= 0x2b73f) ||
+    (code >= 0x2b740 && code <= 0x2b81f) || (code >= 0x2b820 && code <= 0x2ceaf) ||
+    (code >= 0xf900 && code <= 0xfaff) || (code >= 0x2f800 && code <= 0x2fa1f);
+}
+
+/**
+ * The BERT uncased tokenizer: text is cleaned, lower-cased, stripped of
+ * accents and split on whitespace and punctuation, then each word is split
+ * into the longest vocabulary pieces, continuations prefixed with ##.
+ */
+export class WordPieceTokenizer {
+  private readonly unkToken: string;
+  private readonly prefix: string;
+  private readonly maxCharsPerWord: number;
+  private readonly lowercase: boolean;
+
+  constructor(private readonly vocab: Map<string, number>, options: { unkToken?: string; prefix?: string; maxCharsPerWord?: number; lowercase?: boolean } = {}) {
+    this.unkToken = options.unkToken ?? '[UNK]';
+    this.prefix = options.prefix ?? '##';
+    this.maxCharsPerWord = options.maxCharsPerWord ?? 100;
+    this.lowercase = options.lowercase ?? true;
+    for (const token of ['[CLS]', '[SEP]', '[PAD]', this.unkToken]) {
+      if (!vocab.has(token)) {
+        throw new Error(`Tokenizer vocabulary has no ${token} token`);
+      }
+    }
+  }
+
+  /**
+   * Load a WordPiece tokenizer from a Hugging Face tokenizer.json.
+   */
+  public static async load(tokenizerPath: string): Promise<WordPieceTokenizer> {
+    const json = JSON.parse(await readFile(tokenizerPath, 'utf-8')) as TokenizerJson;
+    if (json.model?.type !== 'WordPiece') {
+      throw new Error(`${tokenizerPath} is not a WordPiece tokenizer`);
+    }
+    return new WordPieceTokenizer(new Map(Object.entries(json.model.vocab)), {
+      unkToken: json.model.unk_token,
+      prefix: json.model.continuing_subword_prefix,
+      maxCharsPerWord: json.model.max_input_chars_per_word,
+      lowercase: json.normalizer?.lowercase ?? true
+    });
+  }
+
+  private normalize(text: string): string {
+    let cleaned = '';
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code === 0 || code === 0xfffd || (/\p{Cc}/u.test(char) && !/\s/.test(char))) {
+        continue;
+      }
+      // Chinese characters are words of their own
+      cleaned += /\s/.test(char) ? ' ' : isCjk(code) ? ` ${char} ` : char;
+    }
+    if (this.lowercase) {
+      cleaned = cleaned.toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+    return cleaned;
+  }
+
+  private splitWords(text: string): string[] {
+    const words: string[] = [];
+    for (const chunk of this.normalize(text).split(' ')) {
+      let current = '';
+      for (const char of chunk) {
+        if (isPunctuation(char)) {
+          if (current) words.push(current);
+          words.push(char);
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      if (current) words.push(current);
+    }
+    return words;
+  }
+
+  private wordPieces(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.maxCharsPerWord) {
+      return [this.unkToken];
+    }
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | null = null;
+      while (start < end) {
+        const candidate = (start > 0 ? this.prefix : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+      // A word with any unknown part is unknown as a whole
+      if (piece === null) {
+        return [this.unkToken];
+      }
+      pieces.push(piece);
+      start = end;
+    }
+    return pieces;
+  }
+
+  public tokenize(text: string): string[] {
+    return this.splitWords(text).flatMap(word => this.wordPieces(word));
+  }
+
+  /**
+   * Encode text as model input: [CLS] tokens [SEP], cut to maxLength.
+   */
+  public encode(text: string, maxLength: number = 256): EncodedText {
+    const tokens = this.tokenize(text).slice(0, maxLength - 2);
+    const inputIds = ['[CLS]', ...tokens, '[SEP]'].map(token => this.vocab.get(token)!);
+    return {
+      inputIds,
+      attentionMask: inputIds.map(() => 1),
+      tokenTypeIds: inputIds.map(() => 0)
+    };
+  }
+
+  public get padId(): number {
+    return this.vocab.get('[PAD]')!;
+  }
+}
@@ -0,0 +1,46 @@
+import { emailExtractor } from '../email.js';
+
+const SAMPLE_EMAIL = [
+  'From: Jane Doe <jane@example.com>',
+  'To: Bob <bob@example.com>',
+  'Cc: team@example.com',
+  'Subject: =?UTF-8?Q?Q3_r=C3=A9sum=C3=A9?=',
+  'Date: Tue, 15 Oct 2024 09:30:00 +0000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Numbers are attached.',
+  '--b1',
+  'Content-Type: text/csv; name="q3.csv"',
+  'Content-Disposition: attachment; filename="q3.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('region,revenue\nEMEA,100\n').toString('base64'),
+  '--b1--',
+  ''
+].join('\r\n');
+
+describe('email extraction', () => {
+  it('should extract headers, body and metadata', async () => {
+    const buffer = Buffer.from(SAMPLE_EMAIL, 'utf-8');
+    const result = await emailExtractor.extract({
+      path: '/mail/q3.eml',
+      ext: '.eml',
+      size: buffer.length,
+      readBuffer: async () => buffer
+    });
+
+    expect(result.text).toContain('Subject: Q3 résumé');
+    expect(result.text).toContain('Attachments: q3.csv');
+    expect(result.text).toContain('Numbers are attached.');
+    expect(result.metadata).toEqual({
+      subject: 'Q3 résumé',
+      from: 'Jane Doe <jane@example.com>',
+      to: ['Bob <bob@example.com>', 'team@example.com'],
+      sentAt: Date.parse('2024-10-15T09:30:00Z')
+    });
+  });
+});
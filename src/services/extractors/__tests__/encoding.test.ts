@@ -0,0 +1,30 @@
+import { decodeText, detectEncoding } from '../encoding.js';
+
+describe('text encoding detection', () => {
+  it('should honour byte order marks', () => {
+    const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('café', 'utf-8')]);
+    expect(decodeText(utf8)).toEqual({ text: 'café', encoding: 'utf-8', bom: true });
+
+    const utf16le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('name,city', 'utf16le')]);
+    expect(decodeText(utf16le)).toEqual({ text: 'name,city', encoding: 'utf-16le', bom: true });
+
+    const utf16be = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('Hi', 'utf16le').swap16()]);
+    expect(decodeText(utf16be)?.text).toBe('Hi');
+  });
+
+  it('should recognise UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(Buffer.from('exported report', 'utf16le')).encoding).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from('exported report', 'utf16le').swap16()).encoding).toBe('utf-16be');
+  });
+
+  it('should fall back to Windows-1252 for invalid UTF-8', () => {
+    const latin1 = Buffer.from('Müller;Zürich\n', 'latin1');
+    expect(decodeText(latin1)).toEqual({ text: 'Müller;Zürich\n', encoding: 'windows-1252', bom: false });
+    expect(decodeText(Buffer.from('Müller', 'utf-8'))?.encoding).toBe('utf-8');
+  });
+
+  it('should refuse binary content', () => {
+    expect(decodeText(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]))).toBeNull();
+    expect(decodeText(Buffer.alloc(0))).toEqual({ text: '', encoding: 'utf-8', bom: false });
+  });
+});
@@ -0,0 +1,66 @@
+import { ExtractorRegistry } from '../index.js';
+import type { ContentExtractor, ExtractionSource } from '../index.js';
+
+describe('ExtractorRegistry', () => {
+  let registry: ExtractorRegistry;
+
+  const source = (ext: string): ExtractionSource => ({
+    path: `/files/test${ext}`,
+    ext,
+    size: 4,
+    readBuffer: () => Promise.resolve(Buffer.from('data'))
+  });
+
+  const extractor = (overrides: Partial<ContentExtractor>): ContentExtractor => ({
+    name: 'test',
+    extensions: ['.foo'],
+    priority: 0,
+    extract: jest.fn().mockResolvedValue({ text: 'text' }),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    registry = new ExtractorRegistry();
+  });
+
+  it('should match extractors by extension', () => {
+    registry.register(extractor({ name: 'foo', extensions: ['.FOO'] }));
+
+    expect(registry.canExtract('.foo')).toBe(true);
+    expect(registry.canExtract('.FOO')).toBe(true);
+    expect(registry.canExtract('.bar')).toBe(false);
+  });
+
+  it('should try extractors in priority order', async () => {
+    registry.register(extractor({ name: 'low', priority: 1, extract: async () => ({ text: 'low' }) }));
+    registry.register(extractor({
+      name: 'high',
+      priority: 10,
+      extract: async () => ({ text: 'high', metadata: { pageCount: 2 } })
+    }));
+
+    expect(await registry.extract(source('.foo'))).toEqual({ text: 'high', metadata: { pageCount: 2 }, extractor: 'high' });
+  });
+
+  it('should fall back when an extractor fails or finds no text', async () => {
+    registry.register(extractor({ name: 'broken', priority: 10, extract: async () => { throw new Error('bad'); } }));
+    registry.register(extractor({ name: 'empty', priority: 5, extract: async () => ({ text: '  ' }) }));
+    registry.register(extractor({ name: 'plain', priority: 0, extract: async () => ({ text: 'plain' }) }));
+
+    const result = await registry.extract(source('.foo'));
+    expect(result?.extractor).toBe('plain');
+    expect(result?.text).toBe('plain');
+  });
+
+  it('should replace an extractor registered under the same name', async () => {
+    registry.register(extractor({ name: 'foo', extract: async () => ({ text: 'first' }) }));
+    registry.register(extractor({ name: 'foo', extract: async () => ({ text: 'second' }) }));
+
+    expect(registry.getExtractors()).toHaveLength(1);
+    expect((await registry.extract(source('.foo')))?.text).toBe('second');
+  });
+
+  it('should return null when nothing handles the file', async () => {
+    expect(await registry.extract(source('.zzz'))).toBeNull();
+  });
+});
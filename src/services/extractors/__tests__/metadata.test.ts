@@ -0,0 +1,35 @@
+import AdmZip from 'adm-zip';
+import { parsePdfDate, pdfInfoToMetadata, readCoreProperties } from '../metadata.js';
+
+describe('document metadata', () => {
+  it('should parse PDF dates with time zone offsets', () => {
+    expect(parsePdfDate("D:20230415103000+02'00'")).toBe(Date.parse('2023-04-15T08:30:00Z'));
+    expect(parsePdfDate('D:2023')).toBe(Date.parse('2023-01-01T00:00:00Z'));
+    expect(parsePdfDate('yesterday')).toBeUndefined();
+  });
+
+  it('should map the PDF info dictionary and drop empty fields', () => {
+    expect(pdfInfoToMetadata({ Title: 'Term Sheet', Author: ' ', Keywords: 'seed, pro rata' })).toEqual({
+      title: 'Term Sheet',
+      keywords: ['seed', 'pro rata']
+    });
+  });
+
+  it('should read Office core properties', () => {
+    const zip = new AdmZip();
+    zip.addFile('docProps/core.xml', Buffer.from(
+      '<cp:coreProperties><dc:title>Q3 &amp; Q4 Plan</dc:title><dc:creator>Jane Doe</dc:creator>' +
+      '<cp:keywords>budget; planning</cp:keywords><dcterms:created xsi:type="dcterms:W3CDTF">2024-01-02T10:00:00Z</dcterms:created>' +
+      '</cp:coreProperties>',
+      'utf-8'
+    ));
+
+    expect(readCoreProperties(zip)).toEqual({
+      title: 'Q3 & Q4 Plan',
+      author: 'Jane Doe',
+      keywords: ['budget', 'planning'],
+      createdAt: Date.parse('2024-01-02T10:00:00Z')
+    });
+    expect(readCoreProperties(new AdmZip())).toEqual({});
+  });
+});
@@ -0,0 +1,24 @@
+import { pagesToText } from '../pdf.js';
+import { locateOffset, sliceBySegments } from '../segments.js';
+
+describe('PDF page map', () => {
+  const pages = ['Cover page', 'Term sheet and pro rata rights', 'Signatures'];
+
+  it('should keep a segment per page', () => {
+    const { text, segments } = pagesToText(pages);
+
+    expect(text).toBe('Cover page\n\nTerm sheet and pro rata rights\n\nSignatures');
+    expect(locateOffset(segments, text.indexOf('pro rata'))).toEqual({ page: 2 });
+    expect(locateOffset(segments, text.indexOf('Signatures'))).toEqual({ page: 3 });
+  });
+
+  it('should slice a page range with rebased segments', () => {
+    const { text, segments } = pagesToText(pages);
+    const isInRange = (page?: number) => page !== undefined && page >= 2 && page <= 3;
+
+    const slice = sliceBySegments(text, segments, location => isInRange(location.page));
+    expect(slice?.text).toBe('Term sheet and pro rata rights\n\nSignatures');
+    expect(slice?.segments[0]).toEqual({ start: 0, end: 30, location: { page: 2 } });
+    expect(sliceBySegments(text, segments, location => location.page === 9)).toBeNull();
+  });
+});
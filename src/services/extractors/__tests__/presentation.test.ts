@@ -0,0 +1,43 @@
+import AdmZip from 'adm-zip';
+import { readSlides, slidesToText } from '../presentation.js';
+import { locateOffset } from '../segments.js';
+
+function shape(text: string, placeholder?: string): string {
+  const ph = placeholder ? `<p:nvPr><p:ph type="${placeholder}"/></p:nvPr>` : '<p:nvPr/>';
+  return `<p:sp><p:nvSpPr>${ph}</p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+}
+
+function buildDeck(): AdmZip {
+  const zip = new AdmZip();
+  const add = (name: string, content: string) => zip.addFile(name, Buffer.from(content, 'utf-8'));
+
+  // Presentation order deliberately differs from the file numbering
+  add('ppt/presentation.xml', '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>');
+  add('ppt/_rels/presentation.xml.rels', '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/><Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>');
+  add('ppt/slides/slide1.xml', `<p:sld>${shape('Market size', 'title')}${shape('TAM &amp; SAM')}</p:sld>`);
+  add('ppt/slides/slide2.xml', `<p:sld>${shape('Acme Pitch', 'ctrTitle')}${shape('Seed round')}</p:sld>`);
+  add('ppt/slides/_rels/slide1.xml.rels', '<Relationships><Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml"/></Relationships>');
+  add('ppt/notesSlides/notesSlide1.xml', `<p:notes>${shape('Mention the 2024 survey', 'body')}${shape('2', 'sldNum')}</p:notes>`);
+  return zip;
+}
+
+describe('presentation extraction', () => {
+  it('should read slides in presentation order with titles and notes', () => {
+    expect(readSlides(buildDeck())).toEqual([
+      { number: 1, title: 'Acme Pitch', body: ['Seed round'], notes: [] },
+      { number: 2, title: 'Market size', body: ['TAM & SAM'], notes: ['Mention the 2024 survey'] }
+    ]);
+  });
+
+  it('should map text offsets back to slides and speaker notes', () => {
+    const result = slidesToText(readSlides(buildDeck()));
+
+    expect(result.metadata).toEqual({ slideCount: 2 });
+    expect(locateOffset(result.segments, result.text.indexOf('TAM'))).toEqual({ slide: 2, slideTitle: 'Market size' });
+    expect(locateOffset(result.segments, result.text.indexOf('survey'))).toEqual({
+      slide: 2,
+      slideTitle: 'Market size',
+      notes: true
+    });
+  });
+});
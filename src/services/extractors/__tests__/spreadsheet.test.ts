@@ -0,0 +1,46 @@
+import * as XLSX from 'xlsx';
+import { extractWorkbook } from '../spreadsheet.js';
+import { locateOffset } from '../segments.js';
+
+describe('spreadsheet extraction', () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['Region', 'Revenue', 'Notes'],
+    ['North', 1200, ''],
+    [],
+    ['South', 950, 'late invoice']
+  ]), 'Q3');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Summary']]), 'Overview');
+
+  it('should index every non-empty row of every sheet', () => {
+    const result = extractWorkbook(workbook);
+
+    expect(result.text).toBe('Region | Revenue | Notes\nNorth | 1200\nSouth | 950 | late invoice\n\nSummary');
+    expect(result.segments).toHaveLength(4);
+    expect(result.metadata).toEqual({ sheetNames: ['Q3', 'Overview'], sheetCount: 2 });
+  });
+
+  it('should record sheet, row, cells and header for each row', () => {
+    const result = extractWorkbook(workbook);
+
+    expect(result.segments![2].location).toEqual({
+      sheet: 'Q3',
+      row: 4,
+      columns: ['A', 'B', 'C'],
+      cells: ['South', '950', 'late invoice'],
+      header: ['Region', 'Revenue', 'Notes']
+    });
+  });
+
+  it('should resolve a text offset to its cell', () => {
+    const result = extractWorkbook(workbook);
+    const offset = result.text.indexOf('invoice');
+
+    const location = locateOffset(result.segments, offset);
+    expect(location?.sheet).toBe('Q3');
+    expect(location?.row).toBe(4);
+    expect(location?.cell).toBe('C4');
+
+    expect(locateOffset(result.segments, result.text.indexOf('Summary'))?.cell).toBe('A1');
+  });
+});
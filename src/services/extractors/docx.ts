@@ -0,0 +1,131 @@
+import mammoth from 'mammoth';
+import textract from 'textract';
+import AdmZip from 'adm-zip';
+import { readCoreProperties } from './metadata.js';
+import type { ContentExtractor, DocumentMetadata, ExtractionResult, ExtractionSource } from './types.js';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOC_MIME_TYPE = 'application/msword';
+
+function extractWithTextract(source: ExtractionSource, buffer: Buffer): Promise<string> {
+  const mimeType = source.ext === '.doc' ? DOC_MIME_TYPE : DOCX_MIME_TYPE;
+  return new Promise((resolve, reject) => {
+    textract.fromBufferWithMime(mimeType, buffer, { preserveLineBreaks: true }, (error: Error | null, text: string) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(text);
+      }
+    });
+  });
+}
+
+function extractDocxWithXml(buffer: Buffer): string {
+  // Extract the DOCX file (it's a ZIP file) and read document.xml
+  const zip = new AdmZip(buffer);
+  const contentXml = zip.getEntry('word/document.xml');
+
+  if (!contentXml) {
+    throw new Error('document.xml not found in DOCX file');
+  }
+
+  const xmlContent = contentXml.getData().toString();
+
+  // Use a simple regex to extract text from XML
+  // This is not perfect but can work as a fallback
+  const textMatches = xmlContent.match(/<w:t[^>]*>(.*?)<\/w:t>/g) || [];
+  return textMatches
+    .map((match: string) => match.replace(/<w:t[^>]*>(.*?)<\/w:t>/g, '$1'))
+    .join(' ');
+}
+
+function extractTextFromBinary(buffer: Buffer): string {
+  // Read the file as binary and look for text patterns
+  const content = buffer.toString('utf8', 0, buffer.length);
+
+  // Extract anything that looks like text
+  const textMatches = content.match(/[A-Za-z0-9\s.,;:'"()-]{5,}/g) || [];
+  return textMatches.join(' ');
+}
+
+async function fallbackDocxExtraction(source: ExtractionSource, buffer: Buffer): Promise<string> {
+  // Try with textract first
+  try {
+    return await extractWithTextract(source, buffer);
+  } catch {
+    console.log(`Textract failed for ${source.path}, trying XML parsing`);
+  }
+
+  // If textract fails, try XML parsing
+  try {
+    return extractDocxWithXml(buffer);
+  } catch (error) {
+    console.error(`XML parsing failed for ${source.path}:`, error);
+  }
+
+  // Last resort: try to read the file as binary and extract text
+  try {
+    return extractTextFromBinary(buffer);
+  } catch (error) {
+    console.error(`All fallback extraction methods failed for ${source.path}:`, error);
+    return '';
+  }
+}
+
+function cleanupDocxContent(content: string): string {
+  // Remove excessive whitespace
+  let cleaned = content.replace(/\s+/g, ' ');
+
+  // Remove common DOCX artifacts
+  cleaned = cleaned.replace(/HYPERLINK "[^"]*"/g, '');
+
+  // Restore paragraph breaks
+  cleaned = cleaned.replace(/\. /g, '.\n\n');
+
+  return cleaned;
+}
+
+export const docxExtractor: ContentExtractor = {
+  name: 'docx',
+  extensions: ['.docx', '.doc'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log(`Extracting text from Word document: ${source.path}`);
+    const buffer = await source.readBuffer();
+
+    // First try with mammoth
+    let content = '';
+    try {
+      const result = await mammoth.extractRawText({ buffer });
+      content = result.value;
+    } catch (error) {
+      console.log(`Mammoth failed for ${source.path}:`, error);
+    }
+
+    // If mammoth returns empty content, try alternative methods
+    if (!content || content.trim().length === 0) {
+      console.log(`Mammoth returned empty content for ${source.path}, trying alternative methods`);
+      content = await fallbackDocxExtraction(source, buffer);
+    }
+
+    content = cleanupDocxContent(content);
+
+    if (content.length > 0) {
+      console.log(`Extracted ${content.length} characters from ${source.path}`);
+    } else {
+      console.warn(`Warning: No content extracted from ${source.path}`);
+    }
+
+    // Legacy .doc files are not ZIP containers and carry no core properties
+    let metadata: DocumentMetadata | undefined;
+    if (source.ext !== '.doc') {
+      try {
+        metadata = readCoreProperties(new AdmZip(buffer));
+      } catch (error) {
+        console.warn(`Could not read document properties of ${source.path}:`, error);
+      }
+    }
+
+    return { text: content, metadata };
+  }
+};
@@ -0,0 +1,55 @@
+import { simpleParser } from 'mailparser';
+import type { AddressObject } from 'mailparser';
+import { compactMetadata } from './metadata.js';
+import type { ContentExtractor, ExtractionResult } from './types.js';
+
+function addressTexts(addresses: AddressObject | AddressObject[] | undefined): string[] {
+  if (!addresses) {
+    return [];
+  }
+  return (Array.isArray(addresses) ? addresses : [addresses])
+    .flatMap(address => address.value)
+    .map(({ name, address }) => (name && address ? `${name} <${address}>` : name || address || ''))
+    .filter(Boolean);
+}
+
+/**
+ * Extracts the headers and body of a single message. Attachments are not part
+ * of the text; the MCP service lists them as members of the email so they go
+ * through their own extractors.
+ */
+export const emailExtractor: ContentExtractor = {
+  name: 'email',
+  extensions: ['.eml'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log(`Processing email: ${source.path}`);
+    const parsed = await simpleParser(await source.readBuffer(), { skipImageLinks: true });
+    const from = addressTexts(parsed.from);
+    const to = [...addressTexts(parsed.to), ...addressTexts(parsed.cc)];
+    const sentAt = parsed.date && !isNaN(parsed.date.getTime()) ? parsed.date.getTime() : undefined;
+
+    const headers = [
+      parsed.subject ? `Subject: ${parsed.subject}` : '',
+      from.length > 0 ? `From: ${from.join(', ')}` : '',
+      to.length > 0 ? `To: ${to.join(', ')}` : '',
+      sentAt !== undefined ? `Date: ${new Date(sentAt).toISOString()}` : ''
+    ].filter(Boolean);
+    const attachments = parsed.attachments.filter(attachment => !attachment.related && attachment.filename);
+    if (attachments.length > 0) {
+      headers.push(`Attachments: ${attachments.map(attachment => attachment.filename).join(', ')}`);
+    }
+
+    // mailparser derives the plain text from the HTML part when there is none
+    const body = (parsed.text || '').trim();
+    return {
+      text: [headers.join('\n'), body].filter(Boolean).join('\n\n'),
+      metadata: compactMetadata({
+        subject: parsed.subject?.trim() || undefined,
+        from: from[0],
+        to: to.length > 0 ? to : undefined,
+        sentAt
+      })
+    };
+  }
+};
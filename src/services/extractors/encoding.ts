@@ -0,0 +1,119 @@
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+  bom: boolean;
+}
+
+// Only the start of a file is inspected for the heuristics below
+const SAMPLE_SIZE = 64 * 1024;
+
+// Share of control characters above which a file is treated as binary
+const BINARY_CONTROL_RATIO = 0.1;
+
+function detectBom(buffer: Buffer): { encoding: TextEncoding; length: number } | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: 'utf-16le', length: 2 };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: 'utf-16be', length: 2 };
+  }
+  return null;
+}
+
+/**
+ * UTF-16 without a BOM shows up as a zero byte in every other position for
+ * mostly-ASCII text: the odd bytes for little endian, the even ones for big.
+ */
+function detectUtf16(sample: Buffer): TextEncoding | null {
+  if (sample.length < 4) {
+    return null;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+function isValidUtf8(sample: Buffer, truncated: boolean): boolean {
+  // A sample cut in the middle of a multi-byte character is still valid UTF-8,
+  // so drop up to three trailing bytes of an incomplete sequence
+  let end = sample.length;
+  if (truncated) {
+    let continuation = 0;
+    while (continuation < 3 && end - continuation - 1 >= 0 && (sample[end - continuation - 1] & 0xc0) === 0x80) {
+      continuation++;
+    }
+    const lead = sample[end - continuation - 1];
+    if (lead !== undefined && lead >= 0xc0) {
+      end -= continuation + 1;
+    }
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasBinaryContent(text: string): boolean {
+  if (text.length === 0) {
+    return false;
+  }
+  let controls = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0) {
+      return true;
+    }
+    // Tab, line feed, form feed, carriage return and escape appear in text
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0c && code !== 0x0d && code !== 0x1b) {
+      controls++;
+    }
+  }
+  return controls / text.length > BINARY_CONTROL_RATIO;
+}
+
+/**
+ * Guess the encoding of a text file: a byte order mark wins, then UTF-16 by
+ * its zero-byte pattern, then UTF-8 if the bytes are valid UTF-8, and
+ * Windows-1252 (a superset of Latin-1) otherwise.
+ */
+export function detectEncoding(buffer: Buffer): { encoding: TextEncoding; bom: boolean } {
+  const bom = detectBom(buffer);
+  if (bom) {
+    return { encoding: bom.encoding, bom: true };
+  }
+  const sample = buffer.subarray(0, SAMPLE_SIZE);
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    return { encoding: utf16, bom: false };
+  }
+  const encoding = isValidUtf8(sample, buffer.length > SAMPLE_SIZE) ? 'utf-8' : 'windows-1252';
+  return { encoding, bom: false };
+}
+
+/**
+ * Decode a text file with its detected encoding. Returns null when the
+ * content looks binary, e.g. an image saved with a .txt extension.
+ */
+export function decodeText(buffer: Buffer): DecodedText | null {
+  const { encoding, bom } = detectEncoding(buffer);
+  const body = buffer.subarray(detectBom(buffer)?.length ?? 0);
+  const decoder = new TextDecoder(encoding);
+  if (hasBinaryContent(decoder.decode(body.subarray(0, SAMPLE_SIZE)))) {
+    return null;
+  }
+  return { text: decoder.decode(body), encoding, bom };
+}
@@ -0,0 +1,56 @@
+import exifr from 'exifr';
+import imageSize from 'image-size';
+import { compactMetadata, parseDate } from './metadata.js';
+import type { ContentExtractor, DocumentMetadata, ExtractionResult } from './types.js';
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+function readDimensions(buffer: Buffer): Pick<DocumentMetadata, 'width' | 'height'> {
+  try {
+    const { width, height, orientation } = imageSize(buffer);
+    // EXIF orientations 5-8 store the image rotated by 90 degrees
+    const rotated = orientation !== undefined && orientation >= 5;
+    return rotated ? { width: height, height: width } : { width, height };
+  } catch {
+    return {};
+  }
+}
+
+async function readExif(buffer: Buffer): Promise<DocumentMetadata> {
+  try {
+    const exif = await exifr.parse(buffer, { gps: true });
+    if (!exif) {
+      return {};
+    }
+    return {
+      cameraMake: typeof exif.Make === 'string' ? exif.Make.trim() || undefined : undefined,
+      cameraModel: typeof exif.Model === 'string' ? exif.Model.trim() || undefined : undefined,
+      takenAt: parseDate(exif.DateTimeOriginal ?? exif.CreateDate),
+      latitude: optionalNumber(exif.latitude),
+      longitude: optionalNumber(exif.longitude)
+    };
+  } catch {
+    // Most PNGs and GIFs carry no EXIF block at all
+    return {};
+  }
+}
+
+/**
+ * Images have no text to index; the extractor only contributes metadata so
+ * they can be found by dimensions, camera and capture date.
+ */
+export const imageExtractor: ContentExtractor = {
+  name: 'image',
+  extensions: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.heic', '.tif', '.tiff', '.bmp'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log(`Reading image metadata: ${source.path}`);
+    const buffer = await source.readBuffer();
+    return {
+      text: '',
+      metadata: compactMetadata({ ...readDimensions(buffer), ...(await readExif(buffer)) })
+    };
+  }
+};
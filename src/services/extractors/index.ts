@@ -0,0 +1,125 @@
+import { pathToFileURL } from 'url';
+import { pdfExtractor } from './pdf.js';
+import { docxExtractor } from './docx.js';
+import { textExtractor, textractExtractor } from './text.js';
+import { spreadsheetExtractor } from './spreadsheet.js';
+import { presentationExtractor } from './presentation.js';
+import { imageExtractor } from './image.js';
+import { emailExtractor } from './email.js';
+import type { ContentExtractor, ExtractionResult, ExtractionSource } from './types.js';
+
+export type {
+  ContentExtractor,
+  ContentLocation,
+  ContentSegment,
+  DocumentMetadata,
+  ExtractionResult,
+  ExtractionSource
+} from './types.js';
+
+export interface RegistryExtractionResult extends ExtractionResult {
+  extractor: string;
+}
+
+export class ExtractorRegistry {
+  private extractors: ContentExtractor[] = [];
+
+  public register(extractor: ContentExtractor): void {
+    if (!extractor.name || typeof extractor.extract !== 'function') {
+      throw new Error('Extractors need a name and an extract() function');
+    }
+    // Re-registering a name replaces the earlier extractor
+    this.extractors = this.extractors.filter(existing => existing.name !== extractor.name);
+    this.extractors.push({
+      ...extractor,
+      extensions: extractor.extensions.map(ext => ext.toLowerCase())
+    });
+    this.extractors.sort((a, b) => b.priority - a.priority);
+  }
+
+  public unregister(name: string): boolean {
+    const before = this.extractors.length;
+    this.extractors = this.extractors.filter(extractor => extractor.name !== name);
+    return this.extractors.length !== before;
+  }
+
+  public getExtractors(): ContentExtractor[] {
+    return [...this.extractors];
+  }
+
+  /**
+   * Extractors able to handle a file extension, highest priority first.
+   */
+  public findExtractors(ext: string): ContentExtractor[] {
+    const normalizedExt = ext.toLowerCase();
+    return this.extractors.filter(extractor => extractor.extensions.includes(normalizedExt));
+  }
+
+  public canExtract(ext: string): boolean {
+    return this.findExtractors(ext).length > 0;
+  }
+
+  /**
+   * Run the matching extractors in priority order until one returns text.
+   * Returns null when no extractor handles the file; failures of individual
+   * extractors fall through to the next one.
+   */
+  public async extract(source: ExtractionSource): Promise<RegistryExtractionResult | null> {
+    const candidates = this.findExtractors(source.ext);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    let fallback: RegistryExtractionResult | null = null;
+    for (const extractor of candidates) {
+      try {
+        const result = await extractor.extract(source);
+        if (result.text && result.text.trim().length > 0) {
+          return { ...result, extractor: extractor.name };
+        }
+        // Keep metadata from an extractor that found no text in case nothing
+        // else does better
+        fallback = fallback || { ...result, extractor: extractor.name };
+      } catch (error) {
+        console.error(`Extractor "${extractor.name}" failed for ${source.path}:`, error);
+      }
+    }
+    return fallback || { text: '', extractor: candidates[candidates.length - 1].name };
+  }
+
+  /**
+   * Load extractors from external modules. Each module default-exports a
+   * ContentExtractor or an array of them.
+   */
+  public async loadPlugins(modulePaths: string[]): Promise<void> {
+    for (const modulePath of modulePaths) {
+      try {
+        const plugin = await import(pathToFileURL(modulePath).href);
+        const exported = plugin.default ?? plugin.extractors;
+        const extractors: ContentExtractor[] = Array.isArray(exported) ? exported : [exported];
+        extractors.forEach(extractor => this.register(extractor));
+        console.log(`Loaded ${extractors.length} extractors from ${modulePath}`);
+      } catch (error) {
+        console.error(`Failed to load extractor plugin ${modulePath}:`, error);
+      }
+    }
+  }
+}
+
+export function createDefaultRegistry(): ExtractorRegistry {
+  const registry = new ExtractorRegistry();
+  const builtIns = [
+    pdfExtractor,
+    docxExtractor,
+    spreadsheetExtractor,
+    presentationExtractor,
+    imageExtractor,
+    emailExtractor,
+    textractExtractor,
+    textExtractor
+  ];
+  builtIns.forEach(extractor => registry.register(extractor));
+  return registry;
+}
+
+export const extractorRegistry = createDefaultRegistry();
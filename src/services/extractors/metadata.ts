@@ -0,0 +1,110 @@
+import AdmZip from 'adm-zip';
+import { extractElementText } from './xml.js';
+import type { DocumentMetadata } from './types.js';
+
+export function parseDate(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.getTime();
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const time = Date.parse(value.trim());
+  return isNaN(time) ? undefined : time;
+}
+
+// PDF dates look like D:20230415103000+02'00'
+export function parsePdfDate(value: unknown): number | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+  let offset = 'Z';
+  if (zone && zone !== 'Z') {
+    const digits = zone.replace(/'/g, '');
+    offset = `${digits.slice(0, 3)}:${digits.slice(3, 5) || '00'}`;
+  }
+  return parseDate(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+}
+
+export function parseKeywords(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    const keywords = value.map(String).map(keyword => keyword.trim()).filter(Boolean);
+    return keywords.length > 0 ? keywords : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const keywords = value.split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean);
+  return keywords.length > 0 ? keywords : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Drop undefined fields so stored metadata only holds what the file had.
+ */
+export function compactMetadata(metadata: DocumentMetadata): DocumentMetadata {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as DocumentMetadata;
+}
+
+/**
+ * Read title, author and friends from the docProps/core.xml part shared by
+ * DOCX, XLSX and PPTX files.
+ */
+export function readCoreProperties(zip: AdmZip): DocumentMetadata {
+  const core = zip.getEntry('docProps/core.xml')?.getData().toString('utf-8');
+  if (!core) {
+    return {};
+  }
+  return compactMetadata({
+    title: extractElementText(core, 'dc:title'),
+    author: extractElementText(core, 'dc:creator'),
+    subject: extractElementText(core, 'dc:subject'),
+    keywords: parseKeywords(extractElementText(core, 'cp:keywords')),
+    createdAt: parseDate(extractElementText(core, 'dcterms:created')),
+    modifiedAt: parseDate(extractElementText(core, 'dcterms:modified'))
+  });
+}
+
+/**
+ * Map a PDF document information dictionary onto DocumentMetadata.
+ */
+export function pdfInfoToMetadata(info: Record<string, unknown> | undefined): DocumentMetadata {
+  if (!info) {
+    return {};
+  }
+  return compactMetadata({
+    title: optionalString(info.Title),
+    author: optionalString(info.Author),
+    subject: optionalString(info.Subject),
+    keywords: parseKeywords(info.Keywords),
+    createdAt: parsePdfDate(info.CreationDate),
+    modifiedAt: parsePdfDate(info.ModDate)
+  });
+}
+
+/**
+ * Map SheetJS workbook properties onto DocumentMetadata.
+ */
+export function workbookPropsToMetadata(props: Record<string, unknown> | undefined): DocumentMetadata {
+  if (!props) {
+    return {};
+  }
+  return compactMetadata({
+    title: optionalString(props.Title),
+    author: optionalString(props.Author),
+    subject: optionalString(props.Subject),
+    keywords: parseKeywords(props.Keywords),
+    createdAt: parseDate(props.CreatedDate),
+    modifiedAt: parseDate(props.ModifiedDate)
+  });
+}
@@ -0,0 +1,59 @@
+import { compactMetadata, pdfInfoToMetadata } from './metadata.js';
+import type { ContentExtractor, ContentSegment, DocumentMetadata, ExtractionResult } from './types.js';
+
+/**
+ * Join page texts with a blank line between pages, recording a segment per
+ * page so offsets can be mapped back to page numbers.
+ */
+export function pagesToText(pageTexts: string[]): { text: string; segments: ContentSegment[] } {
+  let text = '';
+  const segments: ContentSegment[] = [];
+  pageTexts.forEach((pageText, index) => {
+    if (index > 0) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    text += pageText;
+    segments.push({ start, end: text.length, location: { page: index + 1 } });
+  });
+  return { text, segments };
+}
+
+// Custom PDF parser implementation that doesn't require test data
+async function parsePDF(dataBuffer: Buffer): Promise<{ text: string; segments: ContentSegment[]; metadata: DocumentMetadata }> {
+  // Import PDF.js directly
+  const pdfjs = await import('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+  const doc = await pdfjs.getDocument({ data: dataBuffer }).promise;
+  const pages = await Promise.all(
+    Array.from({ length: doc.numPages }, (_, i) =>
+      doc.getPage(i + 1).then(page => page.getTextContent())
+    )
+  );
+
+  const { text, segments } = pagesToText(pages.map(page => page.items.map(item => item.str).join(' ')));
+
+  let info: Record<string, unknown> | undefined;
+  try {
+    info = (await doc.getMetadata()).info;
+  } catch (error) {
+    console.warn('Could not read PDF metadata:', error);
+  }
+
+  return { text, segments, metadata: compactMetadata({ ...pdfInfoToMetadata(info), pageCount: doc.numPages }) };
+}
+
+export const pdfExtractor: ContentExtractor = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log('Processing PDF file...');
+    const dataBuffer = await source.readBuffer();
+    try {
+      return await parsePDF(dataBuffer);
+    } catch (error) {
+      console.error('Error in PDF parsing:', error);
+      return { text: '' };
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { extractDrawingParagraphs } from './xml.js';
+import { readCoreProperties } from './metadata.js';
+import type { ContentExtractor, ContentSegment, ExtractionResult } from './types.js';
+
+export interface Slide {
+  number: number;
+  title?: string;
+  body: string[];
+  notes: string[];
+}
+
+const TITLE_SHAPE = /<p:sp\b(?:(?!<\/p:sp>)[\s\S])*?<p:ph\b[^>]*type="(?:title|ctrTitle)"[\s\S]*?<\/p:sp>/g;
+
+function readPart(zip: AdmZip, partName: string): string | null {
+  const entry = zip.getEntry(partName);
+  return entry ? entry.getData().toString('utf-8') : null;
+}
+
+function readRelationships(zip: AdmZip, partName: string): Map<string, string> {
+  const relsName = path.posix.join(path.posix.dirname(partName), '_rels', `${path.posix.basename(partName)}.rels`);
+  const xml = readPart(zip, relsName) || '';
+  const relationships = new Map<string, string>();
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (id && target) {
+      relationships.set(id, path.posix.normalize(path.posix.join(path.posix.dirname(partName), target)));
+    }
+  }
+  return relationships;
+}
+
+/**
+ * Slide part names in presentation order, falling back to the numbering of
+ * the slide files when presentation.xml cannot be read.
+ */
+function slidePartNames(zip: AdmZip): string[] {
+  const presentation = readPart(zip, 'ppt/presentation.xml');
+  if (presentation) {
+    const relationships = readRelationships(zip, 'ppt/presentation.xml');
+    const ordered = Array.from(presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+      .map(match => relationships.get(match[1]))
+      .filter((partName): partName is string => !!partName && !!zip.getEntry(partName));
+    if (ordered.length > 0) {
+      return ordered;
+    }
+  }
+
+  const slideNumber = (name: string) => parseInt(name.match(/slide(\d+)\.xml$/)?.[1] || '0', 10);
+  return zip.getEntries()
+    .map(entry => entry.entryName)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+function readNotes(zip: AdmZip, slidePartName: string): string[] {
+  const notesPart = Array.from(readRelationships(zip, slidePartName).values())
+    .find(target => target.includes('notesSlides/'));
+  const notesXml = notesPart ? readPart(zip, notesPart) : null;
+  if (!notesXml) {
+    return [];
+  }
+  // Only the body placeholder holds the speaker notes; the rest is the slide
+  // thumbnail and the slide number
+  const bodyShapes = notesXml.match(/<p:sp\b(?:(?!<\/p:sp>)[\s\S])*?<p:ph\b[^>]*type="body"[\s\S]*?<\/p:sp>/g) || [];
+  return bodyShapes.flatMap(shape => extractDrawingParagraphs(shape));
+}
+
+export function readSlides(zip: AdmZip): Slide[] {
+  return slidePartNames(zip).map((partName, index) => {
+    const xml = readPart(zip, partName) || '';
+    const titleShapes = xml.match(TITLE_SHAPE) || [];
+    const title = titleShapes.flatMap(shape => extractDrawingParagraphs(shape)).join(' ') || undefined;
+    const body = extractDrawingParagraphs(xml.replace(TITLE_SHAPE, ''));
+    return { number: index + 1, title, body, notes: readNotes(zip, partName) };
+  });
+}
+
+/**
+ * Lay slides out as text, one block per slide with its speaker notes in a
+ * separate block, and record a segment for each block.
+ */
+export function slidesToText(slides: Slide[]): ExtractionResult {
+  let text = '';
+  const segments: ContentSegment[] = [];
+
+  const appendBlock = (block: string, slide: Slide, notes: boolean) => {
+    if (!block) {
+      return;
+    }
+    text += text.length > 0 ? '\n\n' : '';
+    const start = text.length;
+    text += block;
+    segments.push({
+      start,
+      end: text.length,
+      location: { slide: slide.number, slideTitle: slide.title, ...(notes ? { notes: true } : {}) }
+    });
+  };
+
+  for (const slide of slides) {
+    appendBlock([slide.title, ...slide.body].filter(Boolean).join('\n'), slide, false);
+    appendBlock(slide.notes.join('\n'), slide, true);
+  }
+
+  return { text, segments, metadata: { slideCount: slides.length } };
+}
+
+export const presentationExtractor: ContentExtractor = {
+  name: 'presentation',
+  // Keynote decks are indexed through their PowerPoint export
+  extensions: ['.pptx', '.pptm', '.ppsx', '.potx'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log(`Processing presentation: ${source.path}`);
+    const zip = new AdmZip(await source.readBuffer());
+    const slides = readSlides(zip);
+    console.log(`Extracted ${slides.length} slides from ${source.path}`);
+    const result = slidesToText(slides);
+    return { ...result, metadata: { ...readCoreProperties(zip), ...result.metadata } };
+  }
+};
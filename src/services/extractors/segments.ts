@@ -0,0 +1,84 @@
+import type { ContentLocation, ContentSegment } from './types.js';
+
+// Separator between cell values in the text of a spreadsheet row
+export const CELL_SEPARATOR = ' | ';
+
+export interface SnippetLocation extends ContentLocation {
+  cell?: string; // Cell reference such as 'C14' for spreadsheet matches
+}
+
+/**
+ * Binary search the segment containing a text offset.
+ */
+export function findSegment(segments: ContentSegment[] | undefined, offset: number): ContentSegment | undefined {
+  if (!segments || segments.length === 0) {
+    return undefined;
+  }
+  let low = 0;
+  let high = segments.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const segment = segments[mid];
+    if (offset < segment.start) {
+      high = mid - 1;
+    } else if (offset >= segment.end) {
+      low = mid + 1;
+    } else {
+      return segment;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the cell reference (e.g. 'C14') at an offset into a row segment's text.
+ */
+export function cellAtOffset(segment: ContentSegment, offset: number): string | undefined {
+  const { columns, cells, row } = segment.location;
+  if (!columns || !cells || cells.length === 0 || row === undefined) {
+    return undefined;
+  }
+  let cellStart = segment.start;
+  for (let i = 0; i < cells.length; i++) {
+    const nextCellStart = cellStart + cells[i].length + CELL_SEPARATOR.length;
+    if (offset < nextCellStart) {
+      return `${columns[i]}${row}`;
+    }
+    cellStart = nextCellStart;
+  }
+  return `${columns[columns.length - 1]}${row}`;
+}
+
+/**
+ * Resolve the document location of a text offset, if the extractor recorded one.
+ */
+export function locateOffset(segments: ContentSegment[] | undefined, offset: number): SnippetLocation | undefined {
+  const segment = findSegment(segments, offset);
+  if (!segment) {
+    return undefined;
+  }
+  const cell = cellAtOffset(segment, offset);
+  return cell ? { ...segment.location, cell } : { ...segment.location };
+}
+
+/**
+ * Cut out the part of a document whose segments satisfy `predicate`, from
+ * the first matching segment to the last, with segment offsets rebased onto
+ * the returned text. Returns null when no segment matches.
+ */
+export function sliceBySegments(
+  text: string,
+  segments: ContentSegment[] | undefined,
+  predicate: (location: ContentLocation) => boolean
+): { text: string; segments: ContentSegment[] } | null {
+  const selected = (segments || []).filter(segment => predicate(segment.location));
+  if (selected.length === 0) {
+    return null;
+  }
+  const start = selected[0].start;
+  const end = selected[selected.length - 1].end;
+  return {
+    text: text.substring(start, end),
+    segments: selected.map(segment => ({ ...segment, start: segment.start - start, end: segment.end - start }))
+  };
+}
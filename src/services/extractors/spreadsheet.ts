@@ -0,0 +1,97 @@
+import * as XLSX from 'xlsx';
+import { CELL_SEPARATOR } from './segments.js';
+import { compactMetadata, workbookPropsToMetadata } from './metadata.js';
+import type { ContentExtractor, ContentSegment, ExtractionResult } from './types.js';
+
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell) {
+    return '';
+  }
+  const value = cell.w ?? (cell.v !== undefined && cell.v !== null ? String(cell.v) : '');
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render a workbook as text with one line per non-empty row and a blank line
+ * between sheets. Each row gets a segment recording its sheet, row number and
+ * cells so matches can be traced back to a cell.
+ */
+export function extractWorkbook(workbook: XLSX.WorkBook): ExtractionResult {
+  let text = '';
+  const segments: ContentSegment[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet['!ref']) {
+      continue;
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    let headerByColumn: Record<string, string> | null = null;
+    let sheetHasRows = false;
+
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const columns: string[] = [];
+      const cells: string[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const value = cellText(sheet[XLSX.utils.encode_cell({ r, c })]);
+        if (value) {
+          columns.push(XLSX.utils.encode_col(c));
+          cells.push(value);
+        }
+      }
+      if (cells.length === 0) {
+        continue;
+      }
+
+      if (!sheetHasRows) {
+        text += text.length > 0 ? '\n\n' : '';
+        sheetHasRows = true;
+      } else {
+        text += '\n';
+      }
+
+      const rowText = cells.join(CELL_SEPARATOR);
+      const start = text.length;
+      text += rowText;
+
+      // The first non-empty row of a sheet is treated as its header
+      const header = headerByColumn
+        ? columns.map(column => headerByColumn![column] || '')
+        : undefined;
+      segments.push({
+        start,
+        end: text.length,
+        location: { sheet: sheetName, row: r + 1, columns, cells, header }
+      });
+
+      if (!headerByColumn) {
+        headerByColumn = Object.fromEntries(columns.map((column, index) => [column, cells[index]]));
+      }
+    }
+  }
+
+  return {
+    text,
+    segments,
+    metadata: compactMetadata({
+      ...workbookPropsToMetadata(workbook.Props as Record<string, unknown> | undefined),
+      sheetNames: workbook.SheetNames,
+      sheetCount: workbook.SheetNames.length
+    })
+  };
+}
+
+export const spreadsheetExtractor: ContentExtractor = {
+  name: 'spreadsheet',
+  extensions: ['.xlsx', '.xlsm', '.xls', '.ods'],
+  priority: 10,
+  async extract(source): Promise<ExtractionResult> {
+    console.log(`Processing spreadsheet: ${source.path}`);
+    const buffer = await source.readBuffer();
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true, cellHTML: false });
+    const result = extractWorkbook(workbook);
+    console.log(`Extracted ${result.segments?.length || 0} rows from ${workbook.SheetNames.length} sheets`);
+    return result;
+  }
+};
@@ -0,0 +1,63 @@
+import textract from 'textract';
+import { decodeText } from './encoding.js';
+import type { ContentExtractor, ExtractionResult } from './types.js';
+
+export const textExtractor: ContentExtractor = {
+  name: 'text',
+  extensions: [
+    '.txt', '.md', '.json', '.js', '.ts', '.csv', '.xml', '.html', '.htm',
+    '.css', '.scss', '.less', '.yaml', '.yml', '.ini', '.conf', '.log', '.env'
+  ],
+  // Lowest priority so richer extractors for the same type win, with plain
+  // reading as the fallback when they fail
+  priority: 0,
+  async extract(source): Promise<ExtractionResult> {
+    console.log('Processing text file...');
+    const decoded = decodeText(await source.readBuffer());
+    if (!decoded) {
+      console.warn(`Not indexing ${source.path}: content looks binary`);
+      return { text: '', encoding: 'binary' };
+    }
+    return { text: decoded.text, encoding: decoded.encoding };
+  }
+};
+
+const TEXTRACT_MIME_TYPES: Record<string, string> = {
+  '.rtf': 'application/rtf',
+  '.csv': 'text/csv',
+  '.xml': 'text/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html'
+};
+
+// Formats where textract does better than reading the raw text, e.g. by
+// stripping markup
+export const textractExtractor: ContentExtractor = {
+  name: 'textract',
+  extensions: [
+    '.rtf', '.csv', '.xml', '.html', '.htm', '.css', '.scss', '.less',
+    '.yaml', '.yml', '.ini', '.conf', '.log', '.env'
+  ],
+  priority: 5,
+  async extract(source): Promise<ExtractionResult> {
+    console.log('Attempting to extract text from supported file type...');
+    const decoded = decodeText(await source.readBuffer());
+    if (!decoded) {
+      console.warn(`Not indexing ${source.path}: content looks binary`);
+      return { text: '', encoding: 'binary' };
+    }
+    // Hand textract UTF-8 whatever the file was saved as
+    const buffer = Buffer.from(decoded.text, 'utf-8');
+    const mimeType = TEXTRACT_MIME_TYPES[source.ext] || 'text/plain';
+    const text = await new Promise<string>((resolve, reject) => {
+      textract.fromBufferWithMime(mimeType, buffer, (error: Error | null, extracted: string) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(extracted);
+        }
+      });
+    });
+    return { text, encoding: decoded.encoding };
+  }
+};
@@ -0,0 +1,64 @@
+export interface ExtractionSource {
+  path: string;
+  ext: string;        // Lowercase extension including the dot, e.g. '.pdf'
+  size: number;
+  readBuffer(): Promise<Buffer>;
+}
+
+// Where a piece of extracted text lives in the original document
+export interface ContentLocation {
+  page?: number;       // 1-based page number
+  sheet?: string;
+  row?: number;        // 1-based spreadsheet row
+  columns?: string[];  // Column letters of the non-empty cells in the row
+  cells?: string[];    // Cell values, aligned with columns
+  header?: string[];   // Header row values for the same columns, if the sheet has one
+  slide?: number;      // 1-based slide number in presentation order
+  slideTitle?: string;
+  notes?: boolean;     // True when the text comes from the slide's speaker notes
+}
+
+// A range of the extracted text [start, end) and the location it came from
+export interface ContentSegment {
+  start: number;
+  end: number;
+  location: ContentLocation;
+}
+
+// Document properties extractors can report. Dates are epoch milliseconds.
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  createdAt?: number;
+  modifiedAt?: number;
+  pageCount?: number;
+  slideCount?: number;
+  sheetCount?: number;
+  sheetNames?: string[];
+  width?: number;        // Image width in pixels
+  height?: number;       // Image height in pixels
+  cameraMake?: string;
+  cameraModel?: string;
+  takenAt?: number;
+  latitude?: number;
+  longitude?: number;
+  from?: string;         // Email sender, "Name <address>"
+  to?: string[];         // Email recipients including Cc
+  sentAt?: number;       // Email Date header
+}
+
+export interface ExtractionResult {
+  text: string;
+  metadata?: DocumentMetadata;
+  segments?: ContentSegment[]; // Sorted by start, non-overlapping
+  encoding?: string; // Character encoding the text was decoded from, or 'binary' when it was not text
+}
+
+export interface ContentExtractor {
+  name: string;
+  extensions: string[]; // Lowercase extensions including the dot
+  priority: number;     // Higher priority extractors are tried first
+  extract(source: ExtractionSource): Promise<ExtractionResult>;
+}
@@ -0,0 +1,54 @@
+// Minimal helpers for pulling text out of Office Open XML parts. These are
+// regex based on purpose: the parts we read are machine-written and we only
+// need their text runs.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\''
+};
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Text of every DrawingML paragraph (<a:p>) in a part, one string per
+ * non-empty paragraph with its runs (<a:t>) concatenated.
+ */
+export function extractDrawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const paragraph of xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) || []) {
+    const runs = paragraph.match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>/g) || [];
+    const text = runs
+      .map(run => decodeXmlEntities(run.replace(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>/, '$1')))
+      .join('')
+      .trim();
+    if (text) {
+      paragraphs.push(text);
+    }
+  }
+  return paragraphs;
+}
+
+
+/**
+ * Text content of the first element with the given qualified name, e.g.
+ * 'dc:title', or undefined when missing or empty.
+ */
+export function extractElementText(xml: string, qualifiedName: string): string | undefined {
+  const escapedName = qualifiedName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = xml.match(new RegExp(`<${escapedName}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapedName}>`));
+  const text = match ? decodeXmlEntities(match[1]).trim() : '';
+  return text || undefined;
+}
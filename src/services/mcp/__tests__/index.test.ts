@@ -0,0 +1,39 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { mcpService } from '../index.js';
+import { joinVirtualPath } from '../../archives/index.js';
+
+describe('mcpService', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should extract archive members where only this user can reach them', async () => {
+    const zip = new AdmZip();
+    zip.addFile('reports/q3.txt', Buffer.from('Q3 revenue', 'utf-8'));
+    const zipPath = path.join(tmpDir, 'bundle.zip');
+    zip.writeZip(zipPath);
+
+    const extracted = await mcpService.extractArchiveMember(joinVirtualPath(zipPath, 'reports/q3.txt'));
+    const extractionDir = path.dirname(path.dirname(extracted));
+    try {
+      expect(fs.readFileSync(extracted, 'utf-8')).toBe('Q3 revenue');
+      expect(path.basename(extracted)).toBe('q3.txt');
+      expect(extractionDir).not.toBe(path.join(os.tmpdir(), 'search-local-files'));
+      expect(fs.statSync(extractionDir).mode & 0o777).toBe(0o700);
+      expect(fs.statSync(path.dirname(extracted)).mode & 0o777).toBe(0o700);
+      expect(fs.statSync(extracted).mode & 0o777).toBe(0o600);
+      expect(await mcpService.extractArchiveMember(joinVirtualPath(zipPath, 'reports/q3.txt'))).toBe(extracted);
+    } finally {
+      fs.rmSync(extractionDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isIgnored, loadIgnoreScopes, walkRoot } from '../walker.js';
+import type { WalkSkip } from '../walker.js';
+import type { IndexRoot } from '../../config/index.js';
+
+describe('walkRoot', () => {
+  let tmpDir: string;
+  let root: IndexRoot;
+
+  const write = (relativePath: string, content = 'x') => {
+    const fullPath = path.join(tmpDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const collect = async (walkRootConfig: IndexRoot, skips: WalkSkip[] = []): Promise<string[]> => {
+    const files: string[] = [];
+    for await (const filePath of walkRoot(walkRootConfig, { onSkip: skip => skips.push(skip) })) {
+      files.push(path.relative(tmpDir, filePath));
+    }
+    return files.sort();
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walker-test-'));
+    root = { name: 'Test', path: tmpDir, include: [], exclude: [], maxDepth: null, includeHidden: false };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should yield files in nested folders', async () => {
+    write('a.txt');
+    write('docs/b.pdf');
+    write('docs/deep/c.md');
+
+    expect(await collect(root)).toEqual(['a.txt', 'docs/b.pdf', 'docs/deep/c.md']);
+  });
+
+  it('should handle paths containing quotes', async () => {
+    write('it\'s "quoted".txt');
+
+    expect(await collect(root)).toEqual(['it\'s "quoted".txt']);
+  });
+
+  it('should respect .gitignore and .ignore files', async () => {
+    write('.gitignore', 'build/\n*.log\n');
+    write('sub/.ignore', 'secret.txt\n');
+    write('keep.txt');
+    write('debug.log');
+    write('build/out.txt');
+    write('sub/secret.txt');
+    write('sub/public.txt');
+
+    expect(await collect(root)).toEqual(['keep.txt', 'sub/public.txt']);
+  });
+
+  it('should apply the root depth, hidden and exclude rules', async () => {
+    write('a.txt');
+    write('.hidden/b.txt');
+    write('x/y/c.txt');
+    write('node_modules/pkg/d.js');
+
+    expect(await collect({ ...root, maxDepth: 1, exclude: ['node_modules/**'] })).toEqual(['a.txt']);
+  });
+
+  it('should not follow symlink loops', async () => {
+    write('loop/a.txt');
+    fs.symlinkSync(path.join(tmpDir, 'loop'), path.join(tmpDir, 'loop', 'back'));
+
+    const skips: WalkSkip[] = [];
+    expect(await collect(root, skips)).toEqual(['loop/a.txt']);
+    expect(skips.map(skip => skip.reason)).toContain('Symlink loop or duplicate link');
+  });
+
+  it('should record broken symlinks and missing roots as skipped', async () => {
+    fs.symlinkSync(path.join(tmpDir, 'missing'), path.join(tmpDir, 'dangling'));
+
+    const skips: WalkSkip[] = [];
+    await collect(root, skips);
+    await collect({ ...root, path: path.join(tmpDir, 'does-not-exist') }, skips);
+
+    expect(skips).toHaveLength(2);
+    expect(skips[0].reason).toMatch(/^Broken symlink/);
+    expect(skips[1].reason).toMatch(/ENOENT/);
+  });
+
+  it('should stop when aborted', async () => {
+    write('a.txt');
+    write('b.txt');
+    const controller = new AbortController();
+
+    const walk = async () => {
+      for await (const filePath of walkRoot(root, { signal: controller.signal })) {
+        expect(filePath).toBeDefined();
+        controller.abort();
+      }
+    };
+
+    await expect(walk()).rejects.toThrow();
+  });
+});
+
+describe('loadIgnoreScopes', () => {
+  let tmpDir: string;
+
+  const write = (relativePath: string, content = 'x') => {
+    const fullPath = path.join(tmpDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walker-test-'));
+    write('.gitignore', '*.log\n');
+    write('proj/.gitignore', 'secret.txt\nbuild/\n');
+    write('proj/sub/.ignore', 'draft.md\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should collect the ignore files from the root down', async () => {
+    const scopes = await loadIgnoreScopes(tmpDir, path.join(tmpDir, 'proj', 'sub'));
+
+    expect(scopes).toHaveLength(3);
+    expect(isIgnored(scopes!, path.join(tmpDir, 'proj', 'sub', 'secret.txt'), false)).toBe(true);
+    expect(isIgnored(scopes!, path.join(tmpDir, 'proj', 'sub', 'debug.log'), false)).toBe(true);
+    expect(isIgnored(scopes!, path.join(tmpDir, 'proj', 'sub', 'draft.md'), false)).toBe(true);
+    expect(isIgnored(scopes!, path.join(tmpDir, 'proj', 'sub', 'notes.md'), false)).toBe(false);
+  });
+
+  it('should return null below an ignored directory', async () => {
+    expect(await loadIgnoreScopes(tmpDir, path.join(tmpDir, 'proj', 'build', 'out'))).toBeNull();
+  });
+
+  it('should let a walk below the root apply the rules above it', async () => {
+    write('proj/sub/secret.txt');
+    write('proj/sub/public.txt');
+    const directory = path.join(tmpDir, 'proj', 'sub');
+    const scopes = await loadIgnoreScopes(tmpDir, path.join(tmpDir, 'proj'));
+    const subtree: IndexRoot = { name: 'Test', path: directory, include: [], exclude: [], maxDepth: null, includeHidden: false };
+
+    const files: string[] = [];
+    for await (const filePath of walkRoot(subtree, { ignoreScopes: scopes! })) {
+      files.push(path.basename(filePath));
+    }
+    expect(files).toEqual(['public.txt']);
+  });
+});
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { watchRoots } from '../watcher.js';
+import type { RootWatcher } from '../watcher.js';
+import type { IndexRoot } from '../../config/index.js';
+
+describe('watchRoots', () => {
+  let tmpDir: string;
+  let root: IndexRoot;
+  let watcher: RootWatcher | null;
+
+  const nextBatch = (debounceMs: number) => new Promise<string[]>(resolve => {
+    watcher = watchRoots([root], { debounceMs, onChanges: resolve });
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-test-')));
+    root = { name: 'Test', path: tmpDir, include: [], exclude: [], maxDepth: null, includeHidden: false };
+    watcher = null;
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report changes in one debounced batch', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'docs'));
+    const batch = nextBatch(100);
+
+    fs.writeFileSync(path.join(tmpDir, 'a.txt'), 'one');
+    fs.appendFileSync(path.join(tmpDir, 'a.txt'), 'two');
+    fs.writeFileSync(path.join(tmpDir, 'docs', 'b.md'), 'three');
+
+    const paths = await batch;
+    expect(paths).toEqual(expect.arrayContaining([path.join(tmpDir, 'a.txt'), path.join(tmpDir, 'docs', 'b.md')]));
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+
+  it('should report an unwatchable root instead of throwing', () => {
+    const onError = jest.fn();
+    watcher = watchRoots([{ ...root, path: path.join(tmpDir, 'missing') }], { onChanges: jest.fn(), onError });
+
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
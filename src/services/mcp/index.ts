@@ -1,58 +1,69 @@
 import path from 'path';
-import { promisify } from 'util';
-import { readFile as fsReadFile, stat as fsStat } from 'fs/promises';
 import os from 'os';
-import { exec } from 'child_process';
-import mammoth from 'mammoth';
-import textract from 'textract';
-import AdmZip from 'adm-zip';
-import fs from 'fs';
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, readFile as fsReadFile, realpath, stat as fsStat, writeFile } from 'fs/promises';
+import { loadConfig, findRootForPath, isDirectoryPruned, isPathIncluded } from '../config/index.js';
+import type { IndexRoot, SearchConfig } from '../config/index.js';
+import { extractorRegistry } from '../extractors/index.js';
+import type { ContentExtractor, ContentSegment, DocumentMetadata } from '../extractors/index.js';
+import { sliceBySegments } from '../extractors/segments.js';
+import { isArchivePath, isVirtualPath, listArchiveMembers, openArchiveMember, splitVirtualPath, MAX_ARCHIVE_DEPTH } from '../archives/index.js';
+import type { ArchiveMember } from '../archives/index.js';
+import { isIgnored, loadIgnoreScopes, walkRoot } from './walker.js';
+import type { IgnoreScope, WalkSkip } from './walker.js';
+import { watchRoots } from './watcher.js';
+import type { RootWatcher } from './watcher.js';
 
-const execAsync = promisify(exec);
-const extractTextFromFile = promisify(textract.fromFileWithPath) as (filePath: string) => Promise<string>;
+export interface ListFilesOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: { root: string; directories: number; files: number }) => void;
+}
+
+export interface PageRange {
+  from: number; // 1-based, inclusive
+  to: number;   // 1-based, inclusive
+}
 
-// Add a declaration for AdmZip if needed
-declare module 'adm-zip';
+// Parse a page selector such as "12" or "3-5"
+export function parsePageRange(value: string): PageRange | null {
+  const match = value.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  const from = parseInt(match[1], 10);
+  const to = match[2] ? parseInt(match[2], 10) : from;
+  return from >= 1 && to >= from ? { from, to } : null;
+}
+
+export interface ReadFileOptions {
+  pages?: PageRange; // Only return this page range of a paged document such as a PDF
+}
 
 export interface MCPFileContent {
   content: string;
-  encoding: string;
+  encoding: string; // Encoding the file was decoded from, e.g. utf-16le or windows-1252; 'binary' for binaries with a text extension
   size: number;
   lastModified: number;
+  extractor?: string; // Name of the extractor that produced the content
+  metadata?: DocumentMetadata; // Title, author, page count, image dimensions and similar
+  segments?: ContentSegment[]; // Document locations (pages, sheets, rows) of ranges of content
+  pages?: PageRange & { total: number }; // Set when a page range was requested
+  members?: ArchiveMember[]; // Files inside an archive, readable as archive.zip!/member/path
+  hash?: string; // SHA-1 of the file's bytes, set when an extractor read them
 }
 
-// Custom PDF parser implementation that doesn't require test data
-async function parsePDF(dataBuffer: Buffer): Promise<{ text: string }> {
-  try {
-    // Import PDF.js directly
-    // @ts-ignore - PDF.js types are complex, ignoring for now
-    const pdfjs = await import('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
-    const doc = await pdfjs.getDocument({ data: dataBuffer }).promise;
-    const pages = await Promise.all(
-      Array.from({ length: doc.numPages }, (_, i) => 
-        doc.getPage(i + 1).then((page: any) => page.getTextContent())
-      )
-    );
-    
-    const text = pages
-      .map((page: any) => page.items.map((item: any) => item.str).join(' '))
-      .join('\n');
-    
-    return { text };
-  } catch (error) {
-    console.error('Error in PDF parsing:', error);
-    return { text: '' };
-  }
+function hashBuffer(buffer: Buffer): string {
+  return createHash('sha1').update(buffer).digest('hex');
 }
 
 class MCPService {
   private static instance: MCPService;
-  private downloadsPath: string;
+  private config: SearchConfig | null = null;
+  private pluginsLoaded: Promise<void> | null = null;
+  private lastScanSkips: WalkSkip[] = [];
+  private extractionDir: Promise<string> | null = null; // Private to this user, created on the first extraction
 
-  private constructor() {
-    // Use system Downloads folder
-    this.downloadsPath = path.join(os.homedir(), 'Downloads');
-  }
+  private constructor() {}
 
   public static getInstance(): MCPService {
     if (!MCPService.instance) {
@@ -61,253 +72,316 @@ class MCPService {
     return MCPService.instance;
   }
 
-  public getDownloadsPath(): string {
-    return this.downloadsPath;
+  public getConfig(): SearchConfig {
+    // Loaded lazily so an invalid config surfaces as an error from the first
+    // scan rather than at import time
+    if (!this.config) {
+      this.config = loadConfig();
+    }
+    return this.config;
+  }
+
+  public getRoots(): IndexRoot[] {
+    return this.getConfig().roots;
+  }
+
+  public reloadConfig(): IndexRoot[] {
+    this.config = null;
+    this.pluginsLoaded = null;
+    return this.getRoots();
+  }
+
+  public registerExtractor(extractor: ContentExtractor): void {
+    extractorRegistry.register(extractor);
+  }
+
+  private loadExtractorPlugins(): Promise<void> {
+    if (!this.pluginsLoaded) {
+      this.pluginsLoaded = extractorRegistry.loadPlugins(this.getConfig().extractors);
+    }
+    return this.pluginsLoaded;
+  }
+
+  public getRootForPath(filePath: string): IndexRoot | undefined {
+    return findRootForPath(this.getRoots(), filePath);
   }
 
-  private async extractPDFText(filePath: string): Promise<string> {
-    let dataBuffer: Buffer;
+  /**
+   * Whether a file really lies inside an index root once symlinks and `..`
+   * are resolved, so a link in a root cannot expose files outside it. Files
+   * inside archives are judged by their archive. Missing files are not.
+   */
+  public async isInsideRoots(filePath: string): Promise<boolean> {
+    let resolved: string;
     try {
-      dataBuffer = await fsReadFile(filePath);
-      const result = await parsePDF(dataBuffer);
-      return result.text;
-    } catch (error) {
-      console.error('Error reading PDF file:', error);
-      // Try to read as plain text if PDF parsing fails
-      try {
-        return dataBuffer!.toString('utf-8');
-      } catch (textError) {
-        console.error('Error reading as text:', textError);
-        return '';
-      }
+      resolved = await realpath(splitVirtualPath(filePath).filePath);
+    } catch {
+      return false;
     }
+    // Roots may be links themselves, e.g. /tmp on macOS
+    const roots = await Promise.all(this.getRoots().map(async root => ({ ...root, path: await realpath(root.path).catch(() => root.path) })));
+    return findRootForPath(roots, resolved) !== undefined;
   }
 
-  private async extractDocxText(filePath: string): Promise<string> {
+  public async readFile(filePath: string, options: ReadFileOptions = {}): Promise<MCPFileContent> {
     try {
-      console.log(`Extracting text from DOCX file: ${filePath}`);
-      
-      // First try with mammoth
-      const result = await mammoth.extractRawText({ path: filePath });
-      let content = result.value;
-      
-      // If mammoth returns empty content, try alternative methods
-      if (!content || content.trim().length === 0) {
-        console.log(`Mammoth returned empty content for ${filePath}, trying alternative methods`);
-        content = await this.fallbackDocxExtraction(filePath);
+      console.log(`Reading file: ${filePath}`);
+      await this.loadExtractorPlugins();
+      const ext = path.extname(filePath).toLowerCase();
+      const { size, lastModified, read } = await this.openFile(filePath);
+
+      const fileContent: MCPFileContent = {
+        content: '',
+        encoding: 'utf-8',
+        size,
+        lastModified
+      };
+      // Hash whatever the extractors read so unchanged files can be
+      // recognised later even when their mtime moved
+      const readBuffer = async () => {
+        const buffer = await read();
+        fileContent.hash = hashBuffer(buffer);
+        return buffer;
+      };
+
+      // Archives list their members; those with an extractor of their own,
+      // such as emails, also get their content extracted below
+      if (isArchivePath(filePath)) {
+        await this.readArchiveListing(fileContent, filePath);
+      }
+
+      // Only attempt content extraction for types an extractor handles
+      if (!extractorRegistry.canExtract(ext)) {
+        console.log('Skipping content extraction for unsupported file type');
+        return fileContent;
+      }
+
+      const result = await extractorRegistry.extract({
+        path: filePath,
+        ext,
+        size,
+        readBuffer
+      });
+      if (result) {
+        fileContent.content = result.text;
+        fileContent.extractor = result.extractor;
+        fileContent.metadata = result.metadata;
+        fileContent.segments = result.segments;
+        if (result.encoding) {
+          fileContent.encoding = result.encoding;
+        }
       }
-      
-      // Clean up the content
-      content = this.cleanupDocxContent(content);
-      
-      // Log a sample of the extracted content for debugging
-      console.log(`Extracted ${content.length} characters from ${filePath}`);
-      if (content.length > 0) {
-        console.log(`Sample content: ${content.substring(0, 200)}...`);
-      } else {
-        console.warn(`Warning: No content extracted from ${filePath}`);
+
+      if (options.pages) {
+        this.selectPages(fileContent, options.pages, filePath);
       }
-      
-      return content;
+
+      console.log(`Successfully read file: ${filePath} (${fileContent.content.length} chars)`);
+      return fileContent;
     } catch (error) {
-      console.error(`Error extracting text from DOCX file ${filePath}:`, error);
-      return '';
+      console.error(`Error reading file ${filePath}:`, error);
+      throw error;
     }
   }
-  
-  private async fallbackDocxExtraction(filePath: string): Promise<string> {
-    try {
-      // Try with textract first
-      return new Promise((resolve, reject) => {
-        textract.fromFileWithPath(filePath, { preserveLineBreaks: true }, (error: Error | null, text: string) => {
-          if (error) {
-            console.log(`Textract failed for ${filePath}, trying XML parsing`);
-            // If textract fails, try XML parsing
-            this.extractDocxWithXml(filePath)
-              .then(content => resolve(content))
-              .catch(err => {
-                console.error(`XML parsing failed for ${filePath}:`, err);
-                // Last resort: try to read the file as binary and extract text
-                this.extractTextFromBinary(filePath)
-                  .then(content => resolve(content))
-                  .catch(() => resolve(''));
-              });
-          } else {
-            resolve(text);
-          }
-        });
-      });
-    } catch (error) {
-      console.error(`All fallback extraction methods failed for ${filePath}:`, error);
-      return '';
+
+  /**
+   * Size and modification time of a file on disk or inside an archive,
+   * with a reader for its bytes.
+   */
+  private async openFile(filePath: string): Promise<{ size: number; lastModified: number; read: () => Promise<Buffer> }> {
+    // Files inside archives are read from the archive instead of the disk
+    if (isVirtualPath(filePath)) {
+      const { member, read } = await openArchiveMember(filePath);
+      return { size: member.size, lastModified: member.lastModified, read: async () => read() };
     }
+    const stats = await fsStat(filePath);
+    return { size: stats.size, lastModified: stats.mtime.getTime(), read: () => fsReadFile(filePath) };
   }
-  
-  private async extractDocxWithXml(filePath: string): Promise<string> {
-    try {
-      // Extract the DOCX file (it's a ZIP file) and read document.xml
-      const zip = new AdmZip(filePath);
-      const contentXml = zip.getEntry('word/document.xml');
-      
-      if (!contentXml) {
-        throw new Error('document.xml not found in DOCX file');
-      }
-      
-      const xmlContent = contentXml.getData().toString();
-      
-      // Use a simple regex to extract text from XML
-      // This is not perfect but can work as a fallback
-      const textMatches = xmlContent.match(/<w:t[^>]*>(.*?)<\/w:t>/g) || [];
-      const extractedText = textMatches
-        .map((match: string) => match.replace(/<w:t[^>]*>(.*?)<\/w:t>/g, '$1'))
-        .join(' ');
-      
-      return extractedText;
-    } catch (error) {
-      console.error(`Error extracting DOCX with XML parsing:`, error);
-      throw error;
+
+  public async statFile(filePath: string): Promise<{ size: number; lastModified: number; isDirectory: boolean }> {
+    if (isVirtualPath(filePath)) {
+      const { size, lastModified } = await this.openFile(filePath);
+      return { size, lastModified, isDirectory: false };
     }
+    const stats = await fsStat(filePath);
+    return { size: stats.size, lastModified: stats.mtime.getTime(), isDirectory: stats.isDirectory() };
+  }
+
+  public async hashFile(filePath: string): Promise<string> {
+    const { read } = await this.openFile(filePath);
+    return hashBuffer(await read());
   }
-  
-  private async extractTextFromBinary(filePath: string): Promise<string> {
+
+  /**
+   * Names of the registered extractors. A file indexed before an extractor
+   * was added or removed may need to be extracted again.
+   */
+  public async getExtractorNames(): Promise<string[]> {
+    await this.loadExtractorPlugins();
+    return extractorRegistry.getExtractors().map(extractor => extractor.name);
+  }
+
+  /**
+   * List the members of an archive so they can be indexed on their own. The
+   * member paths double as the archive's searchable content.
+   */
+  private async readArchiveListing(fileContent: MCPFileContent, archivePath: string): Promise<void> {
+    if (splitVirtualPath(archivePath).members.length >= MAX_ARCHIVE_DEPTH) {
+      console.log(`Not opening ${archivePath}, archives are nested too deeply`);
+      return;
+    }
     try {
-      // Read the file as binary and look for text patterns
-      const buffer = fs.readFileSync(filePath);
-      const content = buffer.toString('utf8', 0, buffer.length);
-      
-      // Extract anything that looks like text
-      const textMatches = content.match(/[A-Za-z0-9\s.,;:'"()\-]{5,}/g) || [];
-      return textMatches.join(' ');
+      fileContent.members = await listArchiveMembers(archivePath);
+      fileContent.content = fileContent.members.map(member => member.path).join('\n');
+      fileContent.extractor = 'archive';
+      console.log(`Found ${fileContent.members.length} files in archive ${archivePath}`);
     } catch (error) {
-      console.error(`Error extracting text from binary:`, error);
-      throw error;
+      console.error(`Could not open archive ${archivePath}:`, error);
     }
   }
-  
-  private cleanupDocxContent(content: string): string {
-    // Remove excessive whitespace
-    let cleaned = content.replace(/\s+/g, ' ');
-    
-    // Remove common DOCX artifacts
-    cleaned = cleaned.replace(/HYPERLINK "[^"]*"/g, '');
-    
-    // Restore paragraph breaks
-    cleaned = cleaned.replace(/\. /g, '.\n\n');
-    
-    // Look specifically for "pro rata" terms and ensure they're preserved
-    // This helps with the specific case mentioned by the user
-    if (cleaned.toLowerCase().includes('pro rata')) {
-      console.log('Found "pro rata" in the document content');
+
+  /**
+   * Write a file inside an archive to a temporary directory so it can be
+   * opened by other apps, returning the path of the extracted copy.
+   */
+  public async extractArchiveMember(virtualPath: string): Promise<string> {
+    if (!isVirtualPath(virtualPath)) {
+      throw new TypeError(`${virtualPath} is not inside an archive`);
     }
-    
-    return cleaned;
+    const { read } = await openArchiveMember(virtualPath);
+    // mkdtemp picks an unpredictable name and only lets this user in, so
+    // other users can neither read the copies nor plant files in their place
+    this.extractionDir ??= mkdtemp(path.join(os.tmpdir(), 'search-local-files-')).catch(error => {
+      this.extractionDir = null;
+      throw error;
+    });
+    // One directory per member keeps the original filename without collisions
+    const directory = path.join(await this.extractionDir, createHash('sha1').update(virtualPath).digest('hex').slice(0, 16));
+    const targetPath = path.join(directory, path.posix.basename(virtualPath));
+    await mkdir(directory, { recursive: true, mode: 0o700 });
+    await writeFile(targetPath, read(), { mode: 0o600 });
+    console.log(`Extracted ${virtualPath} to ${targetPath}`);
+    return targetPath;
   }
 
-  private isContentReadableFile(filePath: string): boolean {
-    const ext = path.extname(filePath).toLowerCase();
-    const textExtensions = [
-      '.txt', '.md', '.json', '.js', '.ts', '.pdf', '.doc', '.docx',
-      '.rtf', '.csv', '.xml', '.html', '.htm', '.css', '.scss', '.less',
-      '.yaml', '.yml', '.ini', '.conf', '.log', '.env'
-    ];
-    return textExtensions.includes(ext);
-  }
+  private selectPages(fileContent: MCPFileContent, range: PageRange, filePath: string): void {
+    const pageNumbers = (fileContent.segments || [])
+      .map(segment => segment.location.page)
+      .filter((page): page is number => page !== undefined);
+    if (pageNumbers.length === 0) {
+      throw new RangeError(`${filePath} has no page information`);
+    }
 
-  private isBinaryOrMediaFile(filePath: string): boolean {
-    const ext = path.extname(filePath).toLowerCase();
-    const binaryExtensions = [
-      '.dmg', '.exe', '.dll', '.so', '.dylib', '.zip', '.tar', '.gz', '.rar',
-      '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.ico', '.svg', '.webp',
-      '.mp3', '.wav', '.ogg', '.m4a', '.flac', '.wma',
-      '.mp4', '.avi', '.mkv', '.mov', '.wmv',
-      '.ttf', '.otf', '.woff', '.woff2',
-      '.db', '.sqlite', '.mdb',
-      '.iso', '.bin', '.dat'
-    ];
-    return binaryExtensions.includes(ext);
+    const total = Math.max(...pageNumbers);
+    const slice = sliceBySegments(
+      fileContent.content,
+      fileContent.segments,
+      location => location.page !== undefined && location.page >= range.from && location.page <= range.to
+    );
+    if (!slice) {
+      throw new RangeError(`Pages ${range.from}-${range.to} are out of range, ${filePath} has ${total} pages`);
+    }
+
+    fileContent.content = slice.text;
+    fileContent.segments = slice.segments;
+    fileContent.pages = { from: range.from, to: Math.min(range.to, total), total };
   }
 
-  public async readFile(filePath: string): Promise<MCPFileContent> {
-    try {
-      console.log(`Reading file: ${filePath}`);
-      const stats = await fsStat(filePath);
-      let content = '';
-      let encoding = 'utf-8';
-
-      // Skip content extraction for binary/media files
-      if (this.isBinaryOrMediaFile(filePath)) {
-        console.log('Skipping content extraction for binary/media file');
-        return {
-          content: '',
-          encoding,
-          size: stats.size,
-          lastModified: stats.mtime.getTime()
-        };
+  /**
+   * Stream every included file across all configured roots. A file under
+   * nested roots is only yielded for the most specific root.
+   */
+  public async *walkFiles(options: ListFilesOptions = {}): AsyncGenerator<string> {
+    const skips: WalkSkip[] = [];
+    for (const root of this.getRoots()) {
+      console.log(`Scanning files in ${root.name} (${root.path})...`);
+      const rootFiles = walkRoot(root, {
+        signal: options.signal,
+        onSkip: skipped => {
+          console.warn(`Skipping ${skipped.path}: ${skipped.reason}`);
+          skips.push(skipped);
+        },
+        onProgress: progress => options.onProgress?.({ root: root.name, ...progress })
+      });
+      for await (const filePath of rootFiles) {
+        if (this.getRootForPath(filePath) === root) {
+          yield filePath;
+        }
       }
+    }
+    this.lastScanSkips = skips;
+  }
 
-      // Only attempt content extraction for known text-based files
-      if (this.isContentReadableFile(filePath)) {
-        try {
-          const ext = path.extname(filePath).toLowerCase();
-          switch (ext) {
-            case '.pdf':
-              console.log('Processing PDF file...');
-              content = await this.extractPDFText(filePath);
-              break;
-            case '.docx':
-            case '.doc':
-              console.log('Processing Word document...');
-              content = await this.extractDocxText(filePath);
-              // Verify content was extracted
-              if (!content || content.trim().length === 0) {
-                console.warn('Warning: Empty content extracted from Word document');
-              } else {
-                console.log(`Successfully extracted ${content.length} characters from Word document`);
-              }
-              break;
-            case '.txt':
-            case '.md':
-            case '.json':
-            case '.js':
-            case '.ts':
-              console.log('Processing text file...');
-              content = (await fsReadFile(filePath, 'utf-8')).toString();
-              break;
-            default:
-              console.log('Attempting to extract text from supported file type...');
-              try {
-                content = await extractTextFromFile(filePath);
-              } catch (err) {
-                console.log('Falling back to simple text reading...');
-                content = (await fsReadFile(filePath, 'utf-8')).toString();
-              }
-          }
-        } catch (error) {
-          console.error(`Error reading file content: ${error}`);
-          content = ''; // Set empty content but don't fail completely
-        }
-      } else {
-        console.log('Skipping content extraction for unknown file type');
+  // The root's include, exclude and depth rules, including those of the directories above the path
+  private passesRootRules(root: IndexRoot, filePath: string): boolean {
+    const relativePath = path.relative(root.path, filePath);
+    const segments = relativePath.split(path.sep);
+    for (let depth = 1; depth < segments.length; depth++) {
+      if (isDirectoryPruned(root, segments.slice(0, depth).join(path.sep))) {
+        return false;
       }
+    }
+    return isPathIncluded(root, relativePath);
+  }
 
-      console.log(`Successfully read file: ${filePath} (${content.length} chars)`);
-      return {
-        content,
-        encoding,
-        size: stats.size,
-        lastModified: stats.mtime.getTime()
-      };
-    } catch (error) {
-      console.error(`Error reading file ${filePath}:`, error);
-      throw error;
+  /**
+   * Check whether a path on disk falls under a root and passes its rules and
+   * the .gitignore and .ignore files from the root down, as a full walk would.
+   */
+  public async isIndexable(filePath: string): Promise<boolean> {
+    const root = this.getRootForPath(filePath);
+    if (!root || !this.passesRootRules(root, filePath)) {
+      return false;
     }
+    const scopes = await loadIgnoreScopes(root.path, path.dirname(filePath));
+    return scopes !== null && !isIgnored(scopes, filePath, false);
   }
 
-  public async listFiles(): Promise<string[]> {
+  /**
+   * List the indexable files below a directory inside a root, e.g. one that
+   * was just moved or copied in.
+   */
+  public async listFilesUnder(directory: string): Promise<string[]> {
+    const root = this.getRootForPath(directory);
+    if (!root) {
+      return [];
+    }
+    // The ignore files between the root and the directory apply below it too
+    let scopes: IgnoreScope[] = [];
+    if (directory !== root.path) {
+      const above = await loadIgnoreScopes(root.path, path.dirname(directory));
+      if (above === null || isIgnored(above, directory, true)) {
+        return [];
+      }
+      scopes = above;
+    }
+    const files: string[] = [];
+    // The root's rules are checked per file, relative to the root itself
+    const subtree: IndexRoot = { ...root, path: directory, include: [], exclude: [], maxDepth: null, includeHidden: true };
+    for await (const filePath of walkRoot(subtree, { ignoreScopes: scopes, onSkip: skipped => console.warn(`Skipping ${skipped.path}: ${skipped.reason}`) })) {
+      if (this.passesRootRules(root, filePath)) {
+        files.push(filePath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Watch all configured roots, reporting changed paths in debounced batches.
+   */
+  public watchRoots(onChanges: (paths: string[]) => void): RootWatcher {
+    return watchRoots(this.getRoots(), {
+      onChanges,
+      onError: (root, error) => console.error(`Could not watch ${root.name} (${root.path}):`, error)
+    });
+  }
+
+  public async listFiles(options: ListFilesOptions = {}): Promise<string[]> {
     try {
-      console.log(`Scanning files in ${this.downloadsPath}...`);
-      const { stdout } = await execAsync(`find "${this.downloadsPath}" -type f`);
-      const files = stdout.split('\n').filter(Boolean);
+      const files: string[] = [];
+      for await (const filePath of this.walkFiles(options)) {
+        files.push(filePath);
+      }
       console.log(`Found ${files.length} files`);
       return files;
     } catch (error) {
@@ -316,8 +390,17 @@ class MCPService {
     }
   }
 
+  /**
+   * Directories and links the most recent completed scan could not read,
+   * with the reason each was skipped.
+   */
+  public getLastScanSkips(): WalkSkip[] {
+    return this.lastScanSkips;
+  }
+
   public async isTextFile(filePath: string): Promise<boolean> {
-    return this.isContentReadableFile(filePath);
+    await this.loadExtractorPlugins();
+    return extractorRegistry.canExtract(path.extname(filePath).toLowerCase());
   }
 }
 
@@ -0,0 +1,198 @@
+import path from 'path';
+import { opendir, readFile as fsReadFile, stat as fsStat } from 'fs/promises';
+import type { Dirent, Stats } from 'fs';
+import ignore from 'ignore';
+import type { Ignore } from 'ignore';
+import { isDirectoryPruned, isPathIncluded } from '../config/index.js';
+import type { IndexRoot } from '../config/index.js';
+
+const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+export interface WalkSkip {
+  path: string;
+  reason: string;
+}
+
+export interface WalkOptions {
+  signal?: AbortSignal;
+  respectIgnoreFiles?: boolean;
+  ignoreScopes?: IgnoreScope[]; // Rules of the ignore files above the walked directory, see loadIgnoreScopes
+  onSkip?: (skip: WalkSkip) => void;
+  onProgress?: (progress: { directories: number; files: number }) => void;
+}
+
+export interface IgnoreScope {
+  base: string;
+  matcher: Ignore;
+}
+
+interface PendingDirectory {
+  path: string;
+  scopes: IgnoreScope[];
+}
+
+function describeError(error: unknown): string {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return code ? `${code}: ${message}` : message;
+}
+
+function fileIdentity(stats: Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+async function loadIgnoreScope(directory: string): Promise<IgnoreScope | null> {
+  let matcher: Ignore | null = null;
+  for (const ignoreFile of IGNORE_FILES) {
+    try {
+      const rules = await fsReadFile(path.join(directory, ignoreFile), 'utf-8');
+      matcher = (matcher || ignore()).add(rules);
+    } catch {
+      // Missing or unreadable ignore files are simply not applied
+    }
+  }
+  return matcher ? { base: directory, matcher } : null;
+}
+
+export function isIgnored(scopes: IgnoreScope[], fullPath: string, isDirectory: boolean): boolean {
+  return scopes.some(scope => {
+    const relative = path.relative(scope.base, fullPath).split(path.sep).join('/');
+    return scope.matcher.ignores(isDirectory ? `${relative}/` : relative);
+  });
+}
+
+/**
+ * The ignore rules that apply to the entries of a directory below a root, as
+ * a walk from the root would have collected them: those of the root and of
+ * every directory down to this one. Null when the directory or one above it
+ * is ignored itself, so a walk never reaches it.
+ */
+export async function loadIgnoreScopes(rootPath: string, directory: string): Promise<IgnoreScope[] | null> {
+  const scopes: IgnoreScope[] = [];
+  let current = rootPath;
+  for (const segment of path.relative(rootPath, directory).split(path.sep).filter(Boolean)) {
+    const scope = await loadIgnoreScope(current);
+    if (scope) {
+      scopes.push(scope);
+    }
+    current = path.join(current, segment);
+    if (isIgnored(scopes, current, true)) {
+      return null;
+    }
+  }
+  const scope = await loadIgnoreScope(directory);
+  return scope ? [...scopes, scope] : scopes;
+}
+
+/**
+ * Walk an index root depth-first and yield the absolute path of every file
+ * the root's rules include. Paths are streamed as they are found, so callers
+ * never hold the full listing unless they collect it themselves.
+ *
+ * Unreadable directories and broken symlinks are reported through `onSkip`
+ * instead of failing the walk; symlinked directories are followed, with loops
+ * detected by device and inode. Aborting `signal` stops the walk with
+ * the signal's abort reason.
+ */
+export async function* walkRoot(root: IndexRoot, options: WalkOptions = {}): AsyncGenerator<string> {
+  const { signal, respectIgnoreFiles = true, ignoreScopes = [], onSkip, onProgress } = options;
+  const skip = (skipped: WalkSkip) => onSkip?.(skipped);
+
+  let rootStats: Stats;
+  try {
+    rootStats = await fsStat(root.path);
+  } catch (error) {
+    skip({ path: root.path, reason: describeError(error) });
+    return;
+  }
+  if (!rootStats.isDirectory()) {
+    skip({ path: root.path, reason: 'Root is not a directory' });
+    return;
+  }
+
+  const visited = new Set<string>();
+  const pending: PendingDirectory[] = [{ path: root.path, scopes: ignoreScopes }];
+  let directories = 0;
+  let files = 0;
+
+  while (pending.length > 0) {
+    signal?.throwIfAborted();
+    const directory = pending.pop()!;
+
+    // Every directory is tracked by identity so a symlink pointing back at
+    // an ancestor (or at a folder reached another way) is only walked once
+    let directoryStats: Stats;
+    try {
+      directoryStats = directory.path === root.path ? rootStats : await fsStat(directory.path);
+    } catch (error) {
+      skip({ path: directory.path, reason: describeError(error) });
+      continue;
+    }
+    const identity = fileIdentity(directoryStats);
+    if (visited.has(identity)) {
+      skip({ path: directory.path, reason: 'Symlink loop or duplicate link' });
+      continue;
+    }
+    visited.add(identity);
+
+    const scopes = [...directory.scopes];
+    if (respectIgnoreFiles) {
+      const scope = await loadIgnoreScope(directory.path);
+      if (scope) {
+        scopes.push(scope);
+      }
+    }
+
+    let entries: AsyncIterable<Dirent>;
+    try {
+      entries = await opendir(directory.path);
+    } catch (error) {
+      skip({ path: directory.path, reason: describeError(error) });
+      continue;
+    }
+
+    directories++;
+    try {
+      for await (const entry of entries) {
+        signal?.throwIfAborted();
+        const fullPath = path.join(directory.path, entry.name);
+        const relativePath = path.relative(root.path, fullPath);
+
+        let isDirectory = entry.isDirectory();
+        let isFile = entry.isFile();
+
+        if (entry.isSymbolicLink()) {
+          let target: Stats;
+          try {
+            target = await fsStat(fullPath);
+          } catch (error) {
+            skip({ path: fullPath, reason: `Broken symlink (${describeError(error)})` });
+            continue;
+          }
+          isDirectory = target.isDirectory();
+          isFile = target.isFile();
+        }
+
+        if (isDirectory) {
+          if (isDirectoryPruned(root, relativePath) || isIgnored(scopes, fullPath, true)) {
+            continue;
+          }
+          pending.push({ path: fullPath, scopes });
+        } else if (isFile) {
+          if (!isPathIncluded(root, relativePath) || isIgnored(scopes, fullPath, false)) {
+            continue;
+          }
+          files++;
+          yield fullPath;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      skip({ path: directory.path, reason: describeError(error) });
+    }
+
+    onProgress?.({ directories, files });
+  }
+}
@@ -0,0 +1,82 @@
+import path from 'path';
+import { watch as fsWatch } from 'fs';
+import type { FSWatcher } from 'fs';
+import type { IndexRoot } from '../config/index.js';
+
+export interface WatchOptions {
+  debounceMs?: number; // Quiet period after the last event before changes are reported
+  maxWaitMs?: number;  // Report at the latest this long after the first pending event
+  onChanges: (paths: string[]) => void;
+  onError?: (root: IndexRoot, error: unknown) => void;
+}
+
+export interface RootWatcher {
+  close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const DEFAULT_MAX_WAIT_MS = 5000;
+
+/**
+ * Watch index roots recursively and report changed paths in batches. Events
+ * are coalesced: a download that fires dozens of events is reported once,
+ * after it has been quiet for `debounceMs`.
+ *
+ * Reported paths may be files, directories or paths that no longer exist;
+ * the caller checks what is actually there. When the platform does not name
+ * the changed file, the root itself is reported.
+ */
+export function watchRoots(roots: IndexRoot[], options: WatchOptions): RootWatcher {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  const pending = new Set<string>();
+  let firstPendingAt = 0;
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const flush = () => {
+    timer = null;
+    if (closed || pending.size === 0) {
+      return;
+    }
+    const paths = Array.from(pending);
+    pending.clear();
+    options.onChanges(paths);
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    } else {
+      firstPendingAt = Date.now();
+    }
+    const wait = Math.max(0, Math.min(debounceMs, firstPendingAt + maxWaitMs - Date.now()));
+    timer = setTimeout(flush, wait);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const root of roots) {
+    try {
+      const watcher = fsWatch(root.path, { recursive: true, persistent: false }, (_eventType, filename) => {
+        pending.add(filename ? path.join(root.path, filename.toString()) : root.path);
+        schedule();
+      });
+      watcher.on('error', error => options.onError?.(root, error));
+      watchers.push(watcher);
+      console.log(`Watching ${root.name} (${root.path}) for changes`);
+    } catch (error) {
+      options.onError?.(root, error);
+    }
+  }
+
+  return {
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      watchers.forEach(watcher => watcher.close());
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createServerIdentity, isProcessRunning, isSameServer, readRuntimeFile, removeRuntimeFile, writeRuntimeFile, SERVER_NAME } from '../index.js';
+
+describe('server runtime file', () => {
+  let tmpDir: string;
+  let runtimePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runtime-test-'));
+    runtimePath = path.join(tmpDir, 'data', 'server.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should publish the port, pid and version of the server', async () => {
+    const identity = createServerIdentity(49153);
+    await writeRuntimeFile(identity, runtimePath);
+
+    expect(readRuntimeFile(runtimePath)).toEqual({
+      name: SERVER_NAME,
+      version: expect.any(String),
+      pid: process.pid,
+      port: 49153,
+      startedAt: identity.startedAt
+    });
+    expect(fs.statSync(runtimePath).mode & 0o777).toBe(0o600);
+    expect(fs.readdirSync(path.dirname(runtimePath))).toEqual(['server.json']);
+  });
+
+  it('should replace the file of a previous server', async () => {
+    await writeRuntimeFile(createServerIdentity(49152), runtimePath);
+    await writeRuntimeFile(createServerIdentity(49155), runtimePath);
+    expect(readRuntimeFile(runtimePath)?.port).toBe(49155);
+  });
+
+  it('should only remove its own runtime file on shutdown', async () => {
+    const stopping = createServerIdentity(49152);
+    const started = { ...createServerIdentity(49153), startedAt: new Date(Date.now() + 1000).toISOString() };
+    await writeRuntimeFile(started, runtimePath);
+    await removeRuntimeFile(stopping, runtimePath);
+    expect(readRuntimeFile(runtimePath)).toEqual(started);
+
+    await removeRuntimeFile(started, runtimePath);
+    expect(fs.existsSync(runtimePath)).toBe(false);
+  });
+
+  it('should find no server without a readable runtime file', () => {
+    expect(readRuntimeFile(runtimePath)).toBeNull();
+
+    fs.mkdirSync(path.dirname(runtimePath));
+    fs.writeFileSync(runtimePath, '{"port":');
+    expect(readRuntimeFile(runtimePath)).toBeNull();
+
+    fs.writeFileSync(runtimePath, JSON.stringify({ name: 'another-server', pid: 1, port: 49152 }));
+    expect(readRuntimeFile(runtimePath)).toBeNull();
+  });
+
+  it('should tell whether the server process still exists', () => {
+    expect(isProcessRunning(process.pid)).toBe(true);
+    // Beyond the largest pid Linux and macOS hand out
+    expect(isProcessRunning(2 ** 22 + 1)).toBe(false);
+  });
+
+  it('should only accept the server that wrote the file', () => {
+    const identity = createServerIdentity(49152);
+    expect(isSameServer(identity, { ...identity })).toBe(true);
+    expect(isSameServer(identity, { ...identity, startedAt: new Date(0).toISOString() })).toBe(false);
+    expect(isSameServer(identity, { ...identity, port: 49153 })).toBe(false);
+    expect(isSameServer(identity, { ...identity, name: 'another-server' })).toBe(false);
+    expect(isSameServer(identity, undefined)).toBe(false);
+  });
+});
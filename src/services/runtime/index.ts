@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { chmod, mkdir, rename, rm, writeFile } from 'fs/promises';
+import { getDataDir } from '../config/index.js';
+
+export const SERVER_NAME = 'search-local-files';
+
+/**
+ * Who a running server is and where it listens. Written to the runtime file
+ * on start and reported by GET /health, so clients can find the server on
+ * whichever port it got and check it is the process that wrote the file.
+ */
+export interface ServerIdentity {
+  name: string;
+  version: string;
+  pid: number;
+  port: number;
+  startedAt: string; // ISO date, tells a restarted server from the one before
+}
+
+export function getRuntimePath(): string {
+  return path.join(getDataDir(), 'server.json');
+}
+
+// The package version, read from the package.json the server is started next to
+export function getServerVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf-8')).version ?? '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
+export function createServerIdentity(port: number): ServerIdentity {
+  return {
+    name: SERVER_NAME,
+    version: getServerVersion(),
+    pid: process.pid,
+    port,
+    startedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Publish the identity of the server that just started listening. Written to
+ * a temporary file and renamed, so a client never reads half of it.
+ */
+export async function writeRuntimeFile(identity: ServerIdentity, runtimePath: string = getRuntimePath()): Promise<void> {
+  await mkdir(path.dirname(runtimePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${runtimePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(identity, null, 2) + '\n', { mode: 0o600 });
+  await chmod(tempPath, 0o600);
+  await rename(tempPath, runtimePath);
+  console.log(`Wrote server runtime file ${runtimePath}`);
+}
+
+/**
+ * Withdraw the runtime file of a server that is stopping, unless a server
+ * started since has already replaced it with its own.
+ */
+export async function removeRuntimeFile(identity: ServerIdentity, runtimePath: string = getRuntimePath()): Promise<void> {
+  if (isSameServer(identity, readRuntimeFile(runtimePath) ?? undefined)) {
+    await rm(runtimePath, { force: true });
+  }
+}
+
+/**
+ * The identity the last server to start published, or null if none did or
+ * the file is unreadable. The server may have exited since; see
+ * isProcessRunning and compare with what its /health reports.
+ */
+export function readRuntimeFile(runtimePath: string = getRuntimePath()): ServerIdentity | null {
+  try {
+    const identity = JSON.parse(fs.readFileSync(runtimePath, 'utf-8')) as Partial<ServerIdentity>;
+    if (identity.name !== SERVER_NAME || !Number.isInteger(identity.pid) || !Number.isInteger(identity.port)) {
+      return null;
+    }
+    return identity as ServerIdentity;
+  } catch {
+    return null;
+  }
+}
+
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks the process exists
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Whether a server's /health identity is the one in the runtime file
+export function isSameServer(expected: ServerIdentity, reported: Partial<ServerIdentity> | undefined): boolean {
+  return reported?.name === expected.name
+    && reported.pid === expected.pid
+    && reported.port === expected.port
+    && reported.startedAt === expected.startedAt;
+}
@@ -0,0 +1,90 @@
+import { analyze, analyzeQuery, analyzeWord, containsTerm, detectLanguage, findTermOffset, foldDiacritics, isStopWord, queryTokensFor } from '../analysis.js';
+
+describe('foldDiacritics', () => {
+  it('should lower-case and strip accents without moving offsets', () => {
+    expect(foldDiacritics('Café Zürich')).toBe('cafe zurich');
+    expect(foldDiacritics('Ångström')).toHaveLength('Ångström'.length);
+  });
+});
+
+describe('analyzeWord', () => {
+  it('should stem words for their language', () => {
+    expect(analyzeWord('invoices', 'en')).toBe(analyzeWord('invoice', 'en'));
+    expect(analyzeWord('Running', 'en')).toBe('run');
+    expect(analyzeWord('Rechnungen', 'de')).toBe(analyzeWord('Rechnung', 'de'));
+  });
+
+  it('should fold accents and normalise compatibility characters', () => {
+    expect(analyzeWord('Résumé', 'en')).toBe(analyzeWord('resume', 'en'));
+    expect(analyzeWord('ﬁle', 'en')).toBe(analyzeWord('file', 'en'));
+  });
+
+  it('should leave numbers alone', () => {
+    expect(analyzeWord('2024', 'en')).toBe('2024');
+  });
+});
+
+describe('detectLanguage', () => {
+  it('should tell English from German', () => {
+    expect(detectLanguage('The invoice is attached and the payment is due in two weeks.')).toBe('en');
+    expect(detectLanguage('Die Rechnung ist angehängt und die Zahlung ist in zwei Wochen fällig.')).toBe('de');
+  });
+
+  it('should fall back to English without a clear signal', () => {
+    expect(detectLanguage('4711 0815 42')).toBe('en');
+  });
+});
+
+describe('analyze', () => {
+  it('should drop stop words but keep positions', () => {
+    expect(analyze('Bill of lading', 'en').map(token => [token.term, token.position])).toEqual([['bill', 0], ['lade', 2]]);
+  });
+});
+
+describe('analyzeQuery', () => {
+  it('should keep every word with the languages it is a stop word in', () => {
+    expect(analyzeQuery('the invoices und receipts').map(token => token.stopWordIn)).toEqual([['en'], [], ['de'], []]);
+    expect(analyzeQuery('red hat').map(token => token.stopWordIn)).toEqual([[], ['de']]);
+  });
+
+  it('should drop the stop words of a language unless nothing else is left', () => {
+    const tokens = analyzeQuery('the invoices und receipts');
+    expect(queryTokensFor(tokens, 'en').map(token => token.position)).toEqual([1, 2, 3]);
+    expect(queryTokensFor(tokens, 'de').map(token => token.position)).toEqual([0, 1, 3]);
+    expect(queryTokensFor(analyzeQuery('the who'), 'en')).toHaveLength(2);
+  });
+
+  it('should match a word typed with or without accents', () => {
+    expect(analyzeQuery('cafe')[0].variants).toContain(analyzeWord('Café', 'en'));
+  });
+});
+
+describe('containsTerm', () => {
+  it('should match other forms of the words', () => {
+    expect(containsTerm('Two invoices were paid', 'invoice')).toBe(true);
+    expect(containsTerm('Running late', 'run')).toBe(true);
+    expect(containsTerm('Meeting at the Café', 'cafe')).toBe(true);
+    expect(containsTerm('Invoices paid', 'invoice paid')).toBe(true);
+    expect(containsTerm('Invoices paid', 'receipt')).toBe(false);
+  });
+
+  it('should match inside words as written', () => {
+    expect(containsTerm('q3-report.pdf', 'report')).toBe(true);
+  });
+});
+
+describe('findTermOffset', () => {
+  it('should return the first occurrence in any form', () => {
+    expect(findTermOffset('Paid invoices and one invoice', 'invoice')).toBe(5);
+    expect(findTermOffset('Nothing here', 'invoice')).toBe(-1);
+  });
+});
+
+describe('isStopWord', () => {
+  it('should check one language or all of them', () => {
+    expect(isStopWord('The')).toBe(true);
+    expect(isStopWord('und', 'en')).toBe(false);
+    expect(isStopWord('und')).toBe(true);
+    expect(isStopWord('invoice')).toBe(false);
+  });
+});
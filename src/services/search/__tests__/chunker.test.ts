@@ -0,0 +1,26 @@
+import { chunkText } from '../chunker.js';
+
+describe('chunkText', () => {
+  const words = Array.from({ length: 10 }, (_, index) => `w${index}`);
+  const text = words.join(' ');
+
+  it('should split text into overlapping passages of whole words', () => {
+    const chunks = chunkText(text, { maxWords: 4, overlap: 1 });
+    expect(chunks.map(chunk => chunk.text)).toEqual(['w0 w1 w2 w3', 'w3 w4 w5 w6', 'w6 w7 w8 w9']);
+  });
+
+  it('should record where each passage sits in the text', () => {
+    for (const chunk of chunkText(`  ${text}\n`, { maxWords: 3, overlap: 0 })) {
+      expect(`  ${text}\n`.slice(chunk.start, chunk.end)).toBe(chunk.text);
+    }
+  });
+
+  it('should keep short and empty texts whole', () => {
+    expect(chunkText('just a few words')).toEqual([{ text: 'just a few words', start: 0, end: 16 }]);
+    expect(chunkText('  \n ')).toEqual([]);
+  });
+
+  it('should stop after the maximum number of passages', () => {
+    expect(chunkText(text, { maxWords: 2, overlap: 0, maxChunks: 3 })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,58 @@
+import path from 'path';
+import { computeFacets } from '../facets.js';
+import { parseQuery } from '../query.js';
+import type { FacetableFile } from '../facets.js';
+
+describe('computeFacets', () => {
+  const now = new Date(2024, 5, 15, 12).getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const root = path.join(path.sep, 'docs');
+  const file = (relativePath: string, ageDays: number, size: number, rootName = 'Docs'): FacetableFile => ({
+    path: path.join(root, relativePath),
+    filename: path.basename(relativePath),
+    lastModified: now - ageDays * day,
+    size,
+    root: rootName
+  });
+  const files = [
+    file('clients/acme/nda.pdf', 0, 50 * 1024),
+    file('clients/globex/offer.pdf', 3, 2 * 1024 ** 2),
+    file('notes/ideas.md', 40, 1024),
+    file('bundle.zip!/reports/q3.pdf', 500, 200 * 1024 ** 2),
+    file('todo.txt', 10, 300 * 1024, 'My Docs')
+  ];
+  const facets = computeFacets(files, { rootPathFor: () => root, now });
+
+  it('should count extensions, most common first', () => {
+    expect(facets.ext.map(value => [value.value, value.count])).toEqual([['pdf', 3], ['md', 1], ['txt', 1]]);
+    expect(facets.ext[0]).toMatchObject({ label: 'PDF', filter: 'ext:pdf' });
+  });
+
+  it('should count top-level folders, with archives in the folder holding them', () => {
+    expect(facets.folder).toEqual([
+      { value: path.join(root, 'clients'), label: 'clients', count: 2, filter: `in:${path.join(root, 'clients')}` },
+      { value: path.join(root, 'notes'), label: 'notes', count: 1, filter: `in:${path.join(root, 'notes')}` }
+    ]);
+  });
+
+  it('should count modification dates cumulatively', () => {
+    expect(facets.modified.map(value => [value.value, value.count])).toEqual([
+      ['today', 1], ['week', 2], ['month', 3], ['year', 4], ['older', 1]
+    ]);
+    expect(facets.modified[0].filter).toBe('modified:>=2024-06-15');
+  });
+
+  it('should count size ranges and leave out empty ones', () => {
+    expect(facets.size.map(value => [value.value, value.count])).toEqual([['tiny', 2], ['small', 1], ['medium', 1], ['huge', 1]]);
+  });
+
+  it('should filter on the same size ranges it counts', () => {
+    const filterOf = (value: string) => facets.size.find(facet => facet.value === value)!.filter;
+    expect(parseQuery(filterOf('small')).size).toEqual({ min: 100 * 1024, max: 1024 ** 2 });
+    expect(parseQuery(filterOf('medium')).size).toEqual({ min: 1024 ** 2, max: 10 * 1024 ** 2 });
+  });
+
+  it('should quote filter values with spaces', () => {
+    expect(facets.root.find(value => value.value === 'My Docs')?.filter).toBe('in:"My Docs"');
+  });
+});
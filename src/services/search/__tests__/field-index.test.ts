@@ -0,0 +1,37 @@
+import { FieldIndex } from '../field-index.js';
+
+describe('FieldIndex', () => {
+  let index: FieldIndex;
+  const report = { path: '/docs/clients/acme/q3-report.pdf', filename: 'q3-report.pdf', metadata: { author: 'Jane Doe', title: 'Quarterly figures' } };
+  const copy = { path: '/backup/q3-report.pdf', filename: 'q3-report.pdf' };
+
+  beforeEach(() => {
+    index = new FieldIndex();
+    index.add(report);
+    index.add(copy);
+    index.add({ path: '/docs/holiday.jpg', filename: 'holiday.jpg' });
+  });
+
+  it('should find files by the words of their path', () => {
+    expect(Array.from(index.search('clients'))).toEqual([report.path]);
+    expect(Array.from(index.search('report')).sort()).toEqual([copy.path, report.path]);
+  });
+
+  it('should find files by their metadata', () => {
+    expect(Array.from(index.search('jane'))).toEqual([report.path]);
+    expect(Array.from(index.search('figure'))).toEqual([report.path]);
+  });
+
+  it('should match words starting with the term', () => {
+    expect(Array.from(index.search('holi'))).toEqual(['/docs/holiday.jpg']);
+  });
+
+  it('should list the files with a name', () => {
+    expect(Array.from(index.pathsNamed('q3-report.pdf')).sort()).toEqual([copy.path, report.path]);
+    index.remove(copy);
+    expect(Array.from(index.pathsNamed('q3-report.pdf'))).toEqual([report.path]);
+    expect(Array.from(index.search('backup'))).toEqual([]);
+    index.remove(report);
+    expect(Array.from(index.pathsNamed('q3-report.pdf'))).toEqual([]);
+  });
+});
@@ -1,11 +1,22 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { SearchIndex } from '../index.js';
+import { QuerySyntaxError } from '../query.js';
 import { mcpService } from '../../mcp/index.js';
 import type { MCPFileContent } from '../../mcp/index.js';
+import type { Embedder } from '../../embeddings/index.js';
 
 jest.mock('../../mcp', () => ({
   mcpService: {
     listFiles: jest.fn(),
-    readFile: jest.fn()
+    readFile: jest.fn(),
+    getRootForPath: jest.fn(),
+    statFile: jest.fn(),
+    hashFile: jest.fn(),
+    getExtractorNames: jest.fn(),
+    isIndexable: jest.fn(),
+    listFilesUnder: jest.fn()
   }
 }));
 
@@ -20,6 +31,8 @@ describe('SearchIndex', () => {
   beforeEach(() => {
     searchIndex = new SearchIndex();
     (mcpService.listFiles as jest.Mock).mockResolvedValue(mockFiles);
+    (mcpService.getRootForPath as jest.Mock).mockReturnValue({ name: 'Downloads', path: '/downloads' });
+    (mcpService.getExtractorNames as jest.Mock).mockResolvedValue(['pdf', 'text']);
     (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> => 
       Promise.resolve({
         lastModified: Date.now(),
@@ -48,13 +61,271 @@ describe('SearchIndex', () => {
       expect(mcpService.readFile).toHaveBeenCalledTimes(mockFiles.length);
     });
 
+    it('should record the root each file was found under', async () => {
+      await searchIndex.buildIndex();
+
+      const results = searchIndex.search('test1');
+      expect(results[0].root).toBe('Downloads');
+    });
+
+    it('should index archive members under virtual paths', async () => {
+      (mcpService.listFiles as jest.Mock).mockResolvedValue(['/downloads/bundle.zip']);
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({
+          lastModified: Date.now(),
+          size: 1000,
+          members: filePath === '/downloads/bundle.zip' ? [{ path: 'reports/q3.pdf', size: 500, lastModified: 0 }] : undefined
+        })
+      );
+
+      await searchIndex.buildIndex();
+
+      const results = searchIndex.search('q3');
+      expect(results).toHaveLength(1);
+      expect(results[0].path).toBe('/downloads/bundle.zip!/reports/q3.pdf');
+      expect(results[0].archive).toBe('/downloads/bundle.zip');
+    });
+
+    it('should keep the previous index when a build is cancelled', async () => {
+      await searchIndex.buildIndex();
+      const indexingCancelled = jest.fn();
+      searchIndex.on('indexing:cancelled', indexingCancelled);
+
+      const rebuild = searchIndex.buildIndex();
+      expect(searchIndex.cancelIndexing()).toBe(true);
+      await rebuild;
+
+      expect(indexingCancelled).toHaveBeenCalled();
+      expect(searchIndex.getStats().totalFiles).toBe(mockFiles.length);
+    });
+
     it('should not rebuild index if already indexing', async () => {
       const firstBuild = searchIndex.buildIndex();
       const secondBuild = searchIndex.buildIndex();
 
+      expect(secondBuild).toBe(firstBuild);
       await Promise.all([firstBuild, secondBuild]);
       expect(mcpService.listFiles).toHaveBeenCalledTimes(1);
     });
+
+    it('should wait for a running build to stop on close', async () => {
+      let finishListing!: () => void;
+      (mcpService.listFiles as jest.Mock).mockImplementationOnce(() => new Promise(resolve => {
+        finishListing = () => resolve(mockFiles);
+      }));
+      const build = searchIndex.buildIndex();
+      let closed = false;
+      const closing = searchIndex.close().then(() => {
+        closed = true;
+      });
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(closed).toBe(false);
+      finishListing();
+      await closing;
+      expect(searchIndex.getStats().isIndexing).toBe(false);
+      await build;
+
+      await searchIndex.buildIndex();
+      expect(mcpService.listFiles).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('incremental rebuild', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({ lastModified: 1000, size: 10, content: `revenue in ${path.basename(filePath)}`, hash: 'abc' })
+      );
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 1000, size: 10 });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should only re-extract files whose size or mtime changed', async () => {
+      await searchIndex.buildIndex();
+      (mcpService.readFile as jest.Mock).mockClear();
+      (mcpService.statFile as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve({ lastModified: filePath.endsWith('test1.txt') ? 2000 : 1000, size: 10 })
+      );
+
+      await searchIndex.buildIndex();
+
+      expect(mcpService.readFile).toHaveBeenCalledTimes(1);
+      expect(mcpService.readFile).toHaveBeenCalledWith('/downloads/test1.txt');
+      expect(searchIndex.search('revenue')).toHaveLength(3);
+    });
+
+    it('should keep files whose mtime moved but whose bytes did not', async () => {
+      await searchIndex.buildIndex();
+      (mcpService.readFile as jest.Mock).mockClear();
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 5000, size: 10 });
+      (mcpService.hashFile as jest.Mock).mockResolvedValue('abc');
+
+      await searchIndex.buildIndex();
+
+      expect(mcpService.readFile).not.toHaveBeenCalled();
+    });
+
+    it('should skip files deleted or locked since they were listed', async () => {
+      await searchIndex.buildIndex();
+      const denied = (filePath: string) => Promise.reject(Object.assign(new Error(`EACCES: permission denied, open '${filePath}'`), { code: 'EACCES' }));
+      (mcpService.statFile as jest.Mock).mockImplementation((filePath: string) =>
+        filePath.endsWith('test1.txt') ? denied(filePath) : Promise.resolve({ lastModified: 2000, size: 20 })
+      );
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) =>
+        filePath.endsWith('test3.doc') ? Promise.resolve({ lastModified: 2000, size: 10, content: 'revenue' }) : denied(filePath)
+      );
+
+      await searchIndex.buildIndex();
+
+      expect(searchIndex.search('revenue').map(result => result.filename)).toEqual(['test3.doc']);
+    });
+
+    it('should extract everything again when the extractors changed', async () => {
+      await searchIndex.buildIndex();
+      (mcpService.readFile as jest.Mock).mockClear();
+      (mcpService.getExtractorNames as jest.Mock).mockResolvedValue(['pdf', 'email', 'text']);
+
+      await searchIndex.buildIndex();
+
+      expect(mcpService.readFile).toHaveBeenCalledTimes(mockFiles.length);
+    });
+
+    it('should restore the index from a snapshot without extracting', async () => {
+      const snapshotPath = path.join(tmpDir, 'index-snapshot.json.gz');
+      await new SearchIndex({ snapshotPath }).buildIndex();
+      (mcpService.readFile as jest.Mock).mockClear();
+
+      const restored = new SearchIndex({ snapshotPath });
+      expect(await restored.loadSnapshot()).toBe(true);
+      expect(restored.search('test1')[0].matchType).toBe('exact');
+      expect(restored.search('revenue')).toHaveLength(3);
+
+      await restored.buildIndex();
+      expect(mcpService.readFile).not.toHaveBeenCalled();
+    });
+
+    it('should save live changes to the snapshot on close', async () => {
+      const snapshotPath = path.join(tmpDir, 'index-snapshot.json.gz');
+      const saved = new SearchIndex({ snapshotPath });
+      await saved.buildIndex();
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 1000, size: 10, isDirectory: false });
+      (mcpService.isIndexable as jest.Mock).mockResolvedValue(true);
+      await saved.applyChanges(['/downloads/budget.xlsx']);
+
+      await saved.close();
+
+      const restored = new SearchIndex({ snapshotPath });
+      await restored.loadSnapshot();
+      expect(restored.search('budget')[0].path).toBe('/downloads/budget.xlsx');
+    });
+
+    it('should ignore a missing or corrupt snapshot', async () => {
+      const snapshotPath = path.join(tmpDir, 'index-snapshot.json.gz');
+      expect(await new SearchIndex({ snapshotPath }).loadSnapshot()).toBe(false);
+
+      fs.writeFileSync(snapshotPath, 'not gzip');
+      expect(await new SearchIndex({ snapshotPath }).loadSnapshot()).toBe(false);
+    });
+  });
+
+  describe('live changes', () => {
+    const missing = () => Promise.reject(Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' }));
+
+    beforeEach(async () => {
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({ lastModified: 1000, size: 10, content: `revenue in ${path.basename(filePath)}` })
+      );
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 1000, size: 10, isDirectory: false });
+      (mcpService.isIndexable as jest.Mock).mockResolvedValue(true);
+      await searchIndex.buildIndex();
+      (mcpService.readFile as jest.Mock).mockClear();
+    });
+
+    it('should add new files', async () => {
+      const added = jest.fn();
+      searchIndex.on('index:file-added', added);
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 3000, size: 20, isDirectory: false });
+
+      await searchIndex.applyChanges(['/downloads/budget.xlsx']);
+
+      expect(added).toHaveBeenCalledWith({ path: '/downloads/budget.xlsx' });
+      expect(searchIndex.search('budget')[0].path).toBe('/downloads/budget.xlsx');
+      expect(searchIndex.getStats().totalFiles).toBe(mockFiles.length + 1);
+    });
+
+    it('should re-extract changed files and skip unchanged ones', async () => {
+      const updated = jest.fn();
+      searchIndex.on('index:file-updated', updated);
+      (mcpService.statFile as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve({ lastModified: filePath.endsWith('test1.txt') ? 2000 : 1000, size: 10, isDirectory: false })
+      );
+      (mcpService.readFile as jest.Mock).mockResolvedValue({ lastModified: 2000, size: 10, content: 'forecast' });
+
+      await searchIndex.applyChanges(['/downloads/test1.txt', '/downloads/test2.pdf']);
+
+      expect(mcpService.readFile).toHaveBeenCalledTimes(1);
+      expect(updated).toHaveBeenCalledWith({ path: '/downloads/test1.txt' });
+      expect(searchIndex.search('forecast').map(result => result.path)).toEqual(['/downloads/test1.txt']);
+      expect(searchIndex.search('revenue')).toHaveLength(2);
+    });
+
+    it('should remove deleted files and directories', async () => {
+      const removed = jest.fn();
+      searchIndex.on('index:file-removed', removed);
+      (mcpService.statFile as jest.Mock).mockImplementation(missing);
+
+      await searchIndex.applyChanges(['/downloads/test1.txt', '/downloads/subfolder']);
+
+      expect(removed).toHaveBeenCalledTimes(2);
+      expect(removed).toHaveBeenCalledWith({ path: '/downloads/subfolder/test3.doc' });
+      expect(searchIndex.getStats().totalFiles).toBe(1);
+      expect(searchIndex.search('revenue').map(result => result.path)).toEqual(['/downloads/test2.pdf']);
+    });
+
+    it('should move renamed files without extracting them again', async () => {
+      const renamed = jest.fn();
+      searchIndex.on('index:file-renamed', renamed);
+      (mcpService.statFile as jest.Mock).mockImplementation((filePath: string) =>
+        filePath === '/downloads/test1.txt' ? missing() : Promise.resolve({ lastModified: 1000, size: 10, isDirectory: false })
+      );
+
+      await searchIndex.applyChanges(['/downloads/test1.txt', '/downloads/notes.txt']);
+
+      expect(mcpService.readFile).not.toHaveBeenCalled();
+      expect(renamed).toHaveBeenCalledWith({ from: '/downloads/test1.txt', to: '/downloads/notes.txt' });
+      expect(searchIndex.search('notes')[0].path).toBe('/downloads/notes.txt');
+      expect(searchIndex.search('test1').map(result => result.path)).not.toContain('/downloads/test1.txt');
+      expect(searchIndex.getStats().totalFiles).toBe(mockFiles.length);
+    });
+
+    it('should index the files of a directory that was moved in', async () => {
+      (mcpService.statFile as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve({ lastModified: 4000, size: 30, isDirectory: filePath === '/downloads/reports' })
+      );
+      (mcpService.listFilesUnder as jest.Mock).mockResolvedValue(['/downloads/reports/q1.txt', '/downloads/reports/q2.txt']);
+
+      await searchIndex.applyChanges(['/downloads/reports']);
+
+      expect(mcpService.readFile).toHaveBeenCalledTimes(2);
+      expect(searchIndex.getStats().totalFiles).toBe(mockFiles.length + 2);
+    });
+
+    it('should hold changes back until a running build completes', async () => {
+      (mcpService.statFile as jest.Mock).mockResolvedValue({ lastModified: 3000, size: 20, isDirectory: false });
+      const build = searchIndex.buildIndex();
+
+      await searchIndex.applyChanges(['/downloads/late.txt']);
+      await build;
+      await searchIndex.applyChanges([]);
+
+      expect(searchIndex.search('late')[0].path).toBe('/downloads/late.txt');
+    });
   });
 
   describe('search', () => {
@@ -78,6 +349,12 @@ describe('SearchIndex', () => {
       expect(results[0].path).toContain('subfolder');
     });
 
+    it('should find files by a misspelled name', () => {
+      const results = searchIndex.search('tset1');
+      expect(results[0].filename).toBe('test1.txt');
+      expect(results[0].matchType).toBe('fuzzy');
+    });
+
     it('should prioritize exact matches', () => {
       const results = searchIndex.search('test1');
       expect(results.length).toBeGreaterThan(0);
@@ -104,17 +381,436 @@ describe('SearchIndex', () => {
       expect(results).toHaveLength(0);
     });
 
+    it('should page through results with totals', () => {
+      const first = searchIndex.searchPage('test', { limit: 2 });
+      expect(first.results).toHaveLength(2);
+      expect(first).toMatchObject({ total: 3, offset: 0, limit: 2, hasMore: true });
+
+      const second = searchIndex.searchPage('test', { limit: 2, offset: 2 });
+      expect(second.results).toHaveLength(1);
+      expect(second.hasMore).toBe(false);
+      const paths = [...first.results, ...second.results].map(result => result.path);
+      expect(new Set(paths).size).toBe(3);
+    });
+
+    it('should count facets over all matches, not just the page', () => {
+      const { facets } = searchIndex.searchPage('test', { limit: 1 });
+      expect(facets.ext.map(value => value.value).sort()).toEqual(['doc', 'pdf', 'txt']);
+      expect(facets.folder).toEqual([expect.objectContaining({ value: '/downloads/subfolder', count: 1 })]);
+      expect(facets.root).toEqual([expect.objectContaining({ value: 'Downloads', count: 3 })]);
+    });
+
+    it('should clamp the page size', () => {
+      expect(searchIndex.searchPage('test', { limit: 1000 }).limit).toBe(100);
+      expect(searchIndex.searchPage('test', { limit: 0 }).limit).toBe(1);
+    });
+
     it('should ignore file type filter if empty array provided', () => {
       const results = searchIndex.search('test', { fileTypes: [] });
       expect(results).toHaveLength(3); // All test files should be returned
     });
   });
 
+  describe('content', () => {
+    beforeEach(async () => {
+      const contents: Record<string, string> = {
+        '/downloads/test1.txt': 'Notes on the revenue forecast for next year',
+        '/downloads/test2.pdf': 'Quarterly revenue forecast. The revenue forecast was revised.'
+      };
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({ lastModified: Date.now(), size: 1000, content: contents[filePath] || '' })
+      );
+      await searchIndex.buildIndex();
+    });
+
+    it('should rank content matches and add snippets', () => {
+      const results = searchIndex.search('revenue forecast');
+      expect(results.map(r => r.filename)).toEqual(['test2.pdf', 'test1.txt']);
+      expect(results.every(r => r.matchType === 'content')).toBe(true);
+      expect(results[0].snippets?.[0].text).toContain('revenue forecast');
+    });
+
+    it('should honour the snippet options', () => {
+      const [result] = searchIndex.search('revenue forecast', { maxSnippets: 1, snippetContextSize: 5 });
+      expect(result.snippets).toHaveLength(1);
+      expect(result.snippets?.[0].text.length).toBeLessThan(40);
+    });
+
+    it('should not return files without any query term', () => {
+      expect(searchIndex.search('budget')).toHaveLength(0);
+    });
+  });
+
+  describe('text analysis', () => {
+    beforeEach(async () => {
+      const contents: Record<string, string> = {
+        '/downloads/test1.txt': 'The invoices for March were paid. Running costs are listed below.',
+        '/downloads/test2.pdf': 'Die Rechnungen für das Café wurden bezahlt und die Häuser verkauft.'
+      };
+      (mcpService.listFiles as jest.Mock).mockResolvedValue([...mockFiles, '/downloads/Résumé.pdf']);
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({ lastModified: Date.now(), size: 1000, content: contents[filePath] || '' })
+      );
+      await searchIndex.buildIndex();
+    });
+
+    it('should not send the detected language with results', () => {
+      expect(searchIndex.search('invoice')[0]).not.toHaveProperty('language');
+    });
+
+    it('should match other forms of the query words', () => {
+      expect(searchIndex.search('invoice').map(r => r.filename)).toEqual(['test1.txt']);
+      expect(searchIndex.search('run cost').map(r => r.filename)).toEqual(['test1.txt']);
+      expect(searchIndex.search('rechnung haus').map(r => r.filename)).toEqual(['test2.pdf']);
+    });
+
+    it('should match names and content typed without accents', () => {
+      expect(searchIndex.search('cafe').map(r => r.filename)).toEqual(['test2.pdf']);
+      const [result] = searchIndex.search('resume');
+      expect(result).toMatchObject({ filename: 'Résumé.pdf', matchType: 'exact' });
+    });
+
+    it('should ignore stop words in the query', () => {
+      expect(searchIndex.search('the invoices of march').map(r => r.filename)).toEqual(['test1.txt']);
+    });
+
+    it('should only drop the stop words of each file\'s language', async () => {
+      const files: Record<string, string> = {
+        '/downloads/linux.txt': 'Installing Red Hat Enterprise Linux on the server',
+        '/downloads/car.txt': 'The red car was parked outside',
+        '/downloads/memorial.txt': 'The war memorial stands in the park',
+        '/downloads/garden.txt': 'A memorial garden in the park',
+        '/downloads/schaden.txt': 'Das rote Auto hat einen Kratzer'
+      };
+      (mcpService.listFiles as jest.Mock).mockResolvedValue(Object.keys(files));
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve({ lastModified: Date.now(), size: 1000, content: files[filePath] })
+      );
+      await searchIndex.buildIndex();
+
+      const filenames = (query: string) => searchIndex.search(query).map(r => r.filename);
+      expect(filenames('red hat')).toEqual(['linux.txt']);
+      expect(filenames('"red hat"')).toEqual(['linux.txt']);
+      expect(filenames('war memorial')).toEqual(['memorial.txt']);
+      expect(filenames('kratzer hat')).toEqual(['schaden.txt']);
+    });
+
+    it('should cut snippets around other forms of the words', () => {
+      const [result] = searchIndex.search('invoice');
+      expect(result.snippets?.[0].text).toContain('invoices');
+    });
+  });
+
+  describe('metadata', () => {
+    beforeEach(async () => {
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string): Promise<Partial<MCPFileContent>> =>
+        Promise.resolve({
+          lastModified: Date.now(),
+          size: 1000,
+          metadata: filePath.endsWith('.pdf') ? { title: 'Annual Report', author: 'Jane Doe', pageCount: 12 } : undefined
+        })
+      );
+      await searchIndex.buildIndex();
+    });
+
+    it('should match the query against document metadata', () => {
+      const results = searchIndex.search('annual report');
+      expect(results).toHaveLength(1);
+      expect(results[0].matchType).toBe('metadata');
+      expect(results[0].matchedFields).toEqual(['title']);
+      expect(results[0].metadata?.pageCount).toBe(12);
+    });
+
+    it('should apply field filters from the query', () => {
+      expect(searchIndex.search('test author:jane').map(r => r.filename)).toEqual(['test2.pdf']);
+      expect(searchIndex.search('author:"jane doe"')).toHaveLength(1);
+      expect(searchIndex.search('title:budget')).toHaveLength(0);
+    });
+
+    it('should apply metadata filters from the options', () => {
+      const results = searchIndex.search('test', { metadata: { author: 'doe' } });
+      expect(results).toHaveLength(1);
+      expect(results[0].filename).toBe('test2.pdf');
+    });
+  });
+
+  describe('query language', () => {
+    beforeEach(async () => {
+      const files: Record<string, Partial<MCPFileContent>> = {
+        '/downloads/test1.txt': { lastModified: new Date(2023, 5, 1).getTime(), size: 2000, content: 'Draft invoice for the annual report' },
+        '/downloads/test2.pdf': { lastModified: new Date(2024, 2, 1).getTime(), size: 8 * 1024 ** 2, content: 'Annual report with the final invoice' },
+        '/downloads/subfolder/test3.doc': { lastModified: new Date(2024, 4, 1).getTime(), size: 500, content: 'Receipt for the report binding' }
+      };
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) => Promise.resolve(files[filePath]));
+      await searchIndex.buildIndex();
+    });
+
+    const paths = (query: string) => searchIndex.search(query).map(result => result.filename).sort();
+
+    it('should require every word and phrase', () => {
+      expect(paths('report invoice')).toEqual(['test1.txt', 'test2.pdf']);
+      expect(paths('"final invoice"')).toEqual(['test2.pdf']);
+      expect(paths('"invoice final"')).toEqual([]);
+    });
+
+    it('should match either side of OR', () => {
+      expect(paths('report invoice OR receipt')).toEqual(['test1.txt', 'test2.pdf', 'test3.doc']);
+    });
+
+    it('should leave out excluded words', () => {
+      expect(paths('report -draft')).toEqual(['test2.pdf', 'test3.doc']);
+    });
+
+    it('should match words found in different parts of a file', () => {
+      expect(paths('subfolder receipt')).toEqual(['test3.doc']);
+    });
+
+    it('should apply file filters with and without words', () => {
+      expect(paths('report ext:pdf,doc')).toEqual(['test2.pdf', 'test3.doc']);
+      expect(paths('modified:>=2024-01-01 size:<1KB')).toEqual(['test3.doc']);
+      expect(paths('size:>5MB')).toEqual(['test2.pdf']);
+      expect(paths('path:subfolder')).toEqual(['test3.doc']);
+      expect(searchIndex.search('size:>5MB')[0].matchType).toBe('filter');
+    });
+
+    it('should throw on unreadable filters', () => {
+      expect(() => searchIndex.search('report modified:last-week')).toThrow(QuerySyntaxError);
+    });
+
+    it('should search text with pattern characters as typed', async () => {
+      (mcpService.readFile as jest.Mock).mockResolvedValue({ lastModified: Date.now(), size: 1000, content: 'Notes on C++ and the report (final draft)' });
+      await searchIndex.buildIndex();
+
+      expect(searchIndex.search('c++')[0].snippets?.[0].text).toContain('C++');
+      expect(searchIndex.search('report (final')[0].snippets?.[0].text).toContain('report (final');
+    });
+  });
+
+  describe('ranking', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      const files: Record<string, Partial<MCPFileContent>> = {
+        '/downloads/forecast.txt': { lastModified: Date.now(), size: 100, content: 'Revenue forecast for 2025. The forecast assumes flat costs.' },
+        '/downloads/forecasting-notes.txt': { lastModified: Date.now(), size: 100, content: 'Meeting notes' },
+        '/downloads/plan.pdf': { lastModified: Date.now() - 400 * day, size: 100, content: 'The forecast for next year' },
+        '/downloads/plan-copy.pdf': { lastModified: Date.now(), size: 100, content: 'The forecast for next year' }
+      };
+      (mcpService.listFiles as jest.Mock).mockResolvedValue(Object.keys(files));
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) => Promise.resolve(files[filePath]));
+      await searchIndex.buildIndex();
+    });
+
+    it('should combine filename and content signals', () => {
+      const [first] = searchIndex.search('forecast');
+      expect(first.filename).toBe('forecast.txt');
+      expect(first.score).toBe(1);
+      expect(first.scoreBreakdown?.content).toBeGreaterThan(0);
+    });
+
+    it('should add snippets to filename matches that also match on content', () => {
+      const results = searchIndex.search('revenue forecast');
+      const forecast = results.find(result => result.filename === 'forecast.txt');
+      expect(forecast?.matchType).toBe('content');
+      expect(forecast?.snippets?.[0].text).toContain('Revenue forecast');
+    });
+
+    it('should return a breakdown that adds up to the score', () => {
+      for (const result of searchIndex.search('next year')) {
+        const total = Object.values(result.scoreBreakdown || {}).reduce((sum, part) => sum + part, 0);
+        expect(result.score).toBeCloseTo(total);
+      }
+    });
+
+    it('should prefer recently modified files among equal matches', () => {
+      expect(searchIndex.search('next year').map(result => result.filename)).toEqual(['plan-copy.pdf', 'plan.pdf']);
+    });
+  });
+
+  describe('passages', () => {
+    const filler = (count: number) => Array.from({ length: count }, (_, index) => `filler${index}`).join(' ');
+    const files: Record<string, Partial<MCPFileContent>> = {
+      '/downloads/plan.md': { lastModified: Date.now(), size: 100, content: `# Plan\n${filler(300)}\n## Budget\nThe marketing budget doubles next year` },
+      '/downloads/notes.txt': { lastModified: Date.now(), size: 100, content: `Budget notes. ${filler(20)}` },
+      '/downloads/other.txt': { lastModified: Date.now(), size: 100, content: 'Nothing relevant' },
+      '/downloads/manual.txt': { lastModified: Date.now(), size: 100, content: `${filler(20000)}\nThe appendix lists every supplier` }
+    };
+
+    beforeEach(async () => {
+      (mcpService.listFiles as jest.Mock).mockResolvedValue(Object.keys(files));
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) => Promise.resolve(files[filePath]));
+      await searchIndex.buildIndex();
+    });
+
+    it('should return the matching passages across documents', async () => {
+      const page = await searchIndex.searchPassages('marketing budget');
+      expect(page.mode).toBe('keyword');
+      expect(page.passages).toHaveLength(1);
+      const [best] = page.passages;
+      expect(best.path).toBe('/downloads/plan.md');
+      expect(best.text).toContain('The marketing budget doubles');
+      expect(best.passage.anchor).toEqual({ section: 'Budget' });
+      expect(files['/downloads/plan.md'].content!.substring(best.passage.start, best.passage.end)).toBe(best.text);
+    });
+
+    it('should rank passages and honour the limit', async () => {
+      const page = await searchIndex.searchPassages('budget', { limit: 1 });
+      expect(page.total).toBe(2);
+      expect(page.passages).toHaveLength(1);
+      expect(await searchIndex.searchPassages('budget ext:txt')).toMatchObject({ total: 1, passages: [{ filename: 'notes.txt' }] });
+    });
+
+    it('should reach the end of long documents', async () => {
+      const [result] = searchIndex.search('appendix supplier');
+      expect(result.snippets?.[0].text).toContain('The appendix lists every supplier');
+      expect(result.snippets?.[0].position).toBeGreaterThan(100000);
+      const page = await searchIndex.searchPassages('appendix supplier');
+      expect(page.passages[0].text).toContain('The appendix lists every supplier');
+    });
+
+    it('should cut snippets from the indexed passages', () => {
+      const [result] = searchIndex.search('marketing');
+      expect(result.snippets?.[0].passageId).toBeDefined();
+      expect(result).not.toHaveProperty('passages');
+    });
+  });
+
+  describe('semantic search', () => {
+    // Embeds text by the topics its words belong to, so synonyms end up close
+    const topics: Record<string, number> = { car: 0, automobile: 0, vehicle: 0, cat: 1, kitten: 1, invoice: 2, payment: 2, bill: 2 };
+    const fakeEmbedder: Embedder = {
+      model: 'fake-topics',
+      dimensions: 4,
+      embed: jest.fn(async (texts: string[]) => texts.map(text => {
+        const vector = new Float32Array(4);
+        for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+          vector[topics[word] ?? 3] += 1;
+        }
+        const norm = Math.hypot(...vector) || 1;
+        return vector.map(value => value / norm);
+      }))
+    };
+    const files: Record<string, Partial<MCPFileContent>> = {
+      '/downloads/garage.txt': { lastModified: Date.now(), size: 100, content: 'Car service and vehicle inspection' },
+      '/downloads/pets.txt': { lastModified: Date.now(), size: 200, content: 'Our kitten sleeps all day' },
+      '/downloads/cars.txt': { lastModified: Date.now(), size: 300, content: 'Automobile dealers' }
+    };
+
+    beforeEach(async () => {
+      searchIndex = new SearchIndex({ loadEmbedder: async () => fakeEmbedder });
+      (mcpService.listFiles as jest.Mock).mockResolvedValue(Object.keys(files));
+      (mcpService.readFile as jest.Mock).mockImplementation((filePath: string) => Promise.resolve(files[filePath]));
+      await searchIndex.buildIndex();
+      await searchIndex.embedPendingFiles();
+    });
+
+    it('should embed the name and passages of every file', () => {
+      expect(searchIndex.getStats()).toMatchObject({ embeddedFiles: 3, embeddingModel: 'fake-topics' });
+    });
+
+    it('should find files by meaning when no keyword matches', async () => {
+      expect(searchIndex.search('automobile').map(result => result.filename)).toEqual(['cars.txt']);
+
+      const page = await searchIndex.semanticSearchPage('automobile');
+      expect(page.mode).toBe('hybrid');
+      const garage = page.results.find(result => result.filename === 'garage.txt');
+      expect(garage?.matchType).toBe('semantic');
+      expect(garage?.snippets?.[0].text).toContain('Car service');
+      expect(page.results.map(result => result.filename)).not.toContain('pets.txt');
+    });
+
+    it('should rank files matching on keywords and meaning first', async () => {
+      const page = await searchIndex.semanticSearchPage('automobile');
+      expect(page.results[0].filename).toBe('cars.txt');
+      expect(page.results[0].scoreBreakdown?.semantic).toBeGreaterThan(0);
+    });
+
+    it('should leave keyword matches out in semantic mode', async () => {
+      const page = await searchIndex.semanticSearchPage('automobile kitten', { mode: 'semantic' });
+      expect(page.mode).toBe('semantic');
+      expect(page.results.every(result => result.matchType === 'semantic')).toBe(true);
+    });
+
+    it('should still apply filters and exclusions', async () => {
+      const page = await searchIndex.semanticSearchPage('vehicle size:<250B -inspection');
+      expect(page.results.map(result => result.filename)).toEqual([]);
+      await expect(searchIndex.semanticSearchPage('vehicle size:>big')).rejects.toThrow(SyntaxError);
+    });
+
+    it('should embed changed files again and drop removed ones', async () => {
+      files['/downloads/pets.txt'] = { lastModified: Date.now() + 1000, size: 250, content: 'Car insurance payment' };
+      (mcpService.statFile as jest.Mock).mockImplementation(async (filePath: string) => {
+        if (filePath === '/downloads/cars.txt') {
+          throw Object.assign(new Error('gone'), { code: 'ENOENT' });
+        }
+        return { size: files[filePath].size, lastModified: files[filePath].lastModified, isDirectory: false };
+      });
+      (mcpService.isIndexable as jest.Mock).mockResolvedValue(true);
+
+      await searchIndex.applyChanges(['/downloads/pets.txt', '/downloads/cars.txt']);
+      await searchIndex.embedPendingFiles();
+
+      expect(searchIndex.getStats().embeddedFiles).toBe(2);
+      const page = await searchIndex.semanticSearchPage('vehicle');
+      expect(page.results.map(result => result.filename).sort()).toEqual(['garage.txt', 'pets.txt']);
+    });
+
+    it('should find passages by meaning', async () => {
+      expect((await searchIndex.searchPassages('automobile')).passages.map(result => result.filename)).toEqual(['cars.txt']);
+
+      const page = await searchIndex.semanticSearchPage('automobile');
+      expect(page.results.find(result => result.filename === 'garage.txt')?.passage?.id).toBeDefined();
+      const passages = await searchIndex.searchPassages('automobile', { mode: 'hybrid' });
+      expect(passages.mode).toBe('hybrid');
+      expect(passages.passages[0].filename).toBe('cars.txt');
+      expect(passages.passages.find(result => result.filename === 'garage.txt')?.text).toBe('Car service and vehicle inspection');
+    });
+
+    it('should keep vectors in the snapshot for the same model only', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+      const snapshotPath = path.join(tmpDir, 'index-snapshot.json.gz');
+      (mcpService.statFile as jest.Mock).mockImplementation(async (filePath: string) => ({ size: files[filePath].size, lastModified: files[filePath].lastModified }));
+      try {
+        const saved = new SearchIndex({ snapshotPath, loadEmbedder: async () => fakeEmbedder });
+        await saved.buildIndex();
+        await saved.embedPendingFiles();
+        await saved.buildIndex(); // Saves the snapshot, now with vectors
+
+        const restored = new SearchIndex({ snapshotPath, loadEmbedder: async () => fakeEmbedder });
+        await restored.loadSnapshot();
+        expect(restored.getStats().embeddedFiles).toBe(3);
+        (fakeEmbedder.embed as jest.Mock).mockClear();
+        await restored.embedPendingFiles();
+        expect(fakeEmbedder.embed).not.toHaveBeenCalled();
+
+        const otherModel = new SearchIndex({ snapshotPath, loadEmbedder: async () => ({ ...fakeEmbedder, model: 'other' }) });
+        await otherModel.loadSnapshot();
+        await otherModel.embedPendingFiles();
+        expect(otherModel.getStats()).toMatchObject({ embeddedFiles: 3, embeddingModel: 'other' });
+        expect(fakeEmbedder.embed).toHaveBeenCalled();
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fall back to keywords without an embedding model', async () => {
+      const keywordIndex = new SearchIndex({ loadEmbedder: async () => null });
+      await keywordIndex.buildIndex();
+      await keywordIndex.embedPendingFiles();
+
+      const page = await keywordIndex.semanticSearchPage('automobile');
+      expect(page.mode).toBe('keyword');
+      expect(page.results.map(result => result.filename)).toEqual(['cars.txt']);
+    });
+  });
+
   describe('getStats', () => {
     it('should return correct stats', async () => {
       expect(searchIndex.getStats()).toEqual({
         totalFiles: 0,
-        isIndexing: false
+        isIndexing: false,
+        embeddedFiles: 0,
+        embeddingModel: null
       });
 
       const indexPromise = searchIndex.buildIndex();
@@ -123,7 +819,9 @@ describe('SearchIndex', () => {
       await indexPromise;
       expect(searchIndex.getStats()).toEqual({
         totalFiles: mockFiles.length,
-        isIndexing: false
+        isIndexing: false,
+        embeddedFiles: 0,
+        embeddingModel: null
       });
     });
   });
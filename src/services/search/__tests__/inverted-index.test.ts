@@ -0,0 +1,84 @@
+import { InvertedIndex } from '../inverted-index.js';
+
+describe('InvertedIndex', () => {
+  let index: InvertedIndex;
+
+  beforeEach(() => {
+    index = new InvertedIndex();
+    index.add('a', 'Quarterly revenue report. Revenue grew in EMEA.');
+    index.add('b', 'Meeting notes about the revenue forecast and hiring plans for next year.');
+    index.add('c', 'Holiday photos');
+  });
+
+  it('should only return documents containing a query term', () => {
+    expect(Array.from(index.search('revenue').keys()).sort()).toEqual(['a', 'b']);
+    expect(index.search('budget').size).toBe(0);
+  });
+
+  it('should rank documents with more occurrences in shorter text higher', () => {
+    const matches = index.search('revenue');
+    expect(matches.get('a')!.score).toBeGreaterThan(matches.get('b')!.score);
+  });
+
+  it('should tell phrase matches from scattered terms', () => {
+    expect(index.search('revenue report').get('a')).toMatchObject({ phrase: true, matchedTerms: 2 });
+    expect(index.search('report revenue').get('a')).toMatchObject({ phrase: true });
+    expect(index.search('revenue hiring').get('b')).toMatchObject({ phrase: false, matchedTerms: 2 });
+    expect(index.search('revenue hiring').get('a')).toMatchObject({ phrase: false, matchedTerms: 1, termCount: 2 });
+  });
+
+  it('should expand the last term as a prefix when asked', () => {
+    expect(index.search('quarterly rev').get('a')).toMatchObject({ matchedTerms: 1, phrase: false });
+    expect(index.search('quarterly rev', { prefix: true }).get('a')).toMatchObject({ phrase: true });
+  });
+
+  it('should expand a prefix to the terms found in the most documents', () => {
+    const letters = 'bcdfgkmnprtvw';
+    const rareTerms = Array.from(letters).flatMap(first => Array.from(letters).map(second => `zq${first}${second}`)).slice(0, 60);
+    rareTerms.forEach((term, i) => index.add(`rare-${i}`, term));
+    index.add('d', 'zqzz');
+    index.add('e', 'zqzz');
+
+    const matches = index.search('zq', { prefix: true });
+    expect(matches.size).toBe(51);
+    expect(matches.has('d') && matches.has('e')).toBe(true);
+    expect(index.search('zqw', { prefix: true }).size).toBe(0);
+
+    index.remove('d');
+    index.remove('e');
+    expect(index.search('zqz', { prefix: true }).size).toBe(0);
+  });
+
+  it('should forget removed and replaced documents', () => {
+    index.remove('a');
+    expect(Array.from(index.search('revenue').keys())).toEqual(['b']);
+
+    index.add('b', 'Holiday planning');
+    expect(index.search('revenue').size).toBe(0);
+    expect(index.search('holiday').size).toBe(2);
+    expect(index.size).toBe(2);
+  });
+
+  it('should match other forms of a word, with or without accents', () => {
+    index.add('d', 'Two invoices were sent to the Café', 'en');
+    index.add('e', 'Die Rechnungen für das Büro', 'de');
+    expect(Array.from(index.search('invoice').keys())).toEqual(['d']);
+    expect(Array.from(index.search('cafe').keys())).toEqual(['d']);
+    expect(Array.from(index.search('rechnung buro').keys())).toEqual(['e']);
+  });
+
+  it('should keep phrases across stop words', () => {
+    index.add('d', 'Bill of lading for the shipment');
+    expect(index.search('bill of lading').get('d')).toMatchObject({ phrase: true, matchedTerms: 2 });
+    expect(index.search('bill lading').get('d')).toMatchObject({ phrase: false });
+  });
+
+  it('should only leave out the stop words of each document\'s language', () => {
+    index.add('d', 'Installing Red Hat Enterprise Linux', 'en');
+    index.add('e', 'The red car was parked outside', 'en');
+    index.add('f', 'Das rote Auto hat einen Kratzer', 'de');
+    expect(index.search('red hat').get('d')).toMatchObject({ phrase: true, matchedTerms: 2, termCount: 2 });
+    expect(index.search('red hat').get('e')).toMatchObject({ matchedTerms: 1, termCount: 2 });
+    expect(index.search('auto hat').get('f')).toMatchObject({ phrase: true, matchedTerms: 1, termCount: 1 });
+  });
+});
@@ -0,0 +1,63 @@
+import { passageCoverage, splitPassages } from '../passages.js';
+import { parseQuery } from '../query.js';
+
+describe('splitPassages', () => {
+  const words = (prefix: string, count: number) => Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+  it('should cut overlapping passages with offsets into the content', () => {
+    const content = words('w', 500);
+    const passages = splitPassages(content);
+    expect(passages.length).toBeGreaterThan(2);
+    expect(passages[0].start).toBe(0);
+    expect(passages[1].start).toBeLessThan(passages[0].end);
+    expect(passages[passages.length - 1].end).toBe(content.length);
+  });
+
+  it('should cut long documents to their end', () => {
+    const content = words('w', 20000);
+    const passages = splitPassages(content);
+    expect(passages.length).toBeGreaterThan(64);
+    expect(passages[passages.length - 1].end).toBe(content.length);
+  });
+
+  it('should keep passage IDs while their text stays the same', () => {
+    const content = words('w', 300);
+    const ids = splitPassages(content).map(passage => passage.id);
+    expect(splitPassages(content).map(passage => passage.id)).toEqual(ids);
+    expect(splitPassages(content.replace('w250', 'changed')).map(passage => passage.id)[0]).toBe(ids[0]);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should number passages with the same text', () => {
+    // Passages start every 160 words, so text repeating every 160 words repeats them
+    const block = words('x', 160);
+    const [first, second] = splitPassages([block, block, block].join(' '));
+    expect(second.id).toBe(`${first.id}-2`);
+  });
+
+  it('should anchor passages to pages and Markdown sections', () => {
+    const page1 = words('a', 200);
+    const content = `# Intro\n${page1}\n## Results\n${words('b', 300)}`;
+    const pageBreak = content.indexOf('## Results');
+    const passages = splitPassages(content, [
+      { start: 0, end: pageBreak, location: { page: 1 } },
+      { start: pageBreak, end: content.length, location: { page: 2 } }
+    ]);
+    expect(passages[0].anchor).toEqual({ page: 1, section: 'Intro' });
+    expect(passages[passages.length - 1].anchor).toEqual({ page: 2, section: 'Results' });
+  });
+
+  it('should leave out anchors for plain text', () => {
+    expect(splitPassages('just some text')[0].anchor).toBeUndefined();
+  });
+});
+
+describe('passageCoverage', () => {
+  it('should count the query words and phrases a passage contains', () => {
+    const text = 'The annual report covers Q3-report figures';
+    expect(passageCoverage(text, parseQuery('"annual report" q3-report'))).toBe(1);
+    expect(passageCoverage(text, parseQuery('"report annual" figures'))).toBe(0.5);
+    expect(passageCoverage(text, parseQuery('budget OR figures'))).toBe(1);
+    expect(passageCoverage(text, parseQuery('ext:pdf'))).toBe(0);
+  });
+});
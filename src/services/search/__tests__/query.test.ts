@@ -0,0 +1,104 @@
+import os from 'os';
+import path from 'path';
+import { matchesQueryFilters, parseQuery, QuerySyntaxError, withoutStopWordTerms } from '../query.js';
+import type { FilterableFile } from '../query.js';
+
+describe('parseQuery', () => {
+  it('should treat words as required terms', () => {
+    const parsed = parseQuery('Quarterly Revenue');
+    expect(parsed.required).toEqual([[{ text: 'quarterly', phrase: false }], [{ text: 'revenue', phrase: false }]]);
+    expect(parsed.text).toBe('quarterly revenue');
+  });
+
+  it('should parse phrases, exclusions and OR groups', () => {
+    const parsed = parseQuery('"annual report" invoice OR receipt -draft -"old version"');
+    expect(parsed.required).toEqual([
+      [{ text: 'annual report', phrase: true }],
+      [{ text: 'invoice', phrase: false }, { text: 'receipt', phrase: false }]
+    ]);
+    expect(parsed.excluded).toEqual([{ text: 'draft', phrase: false }, { text: 'old version', phrase: true }]);
+  });
+
+  it('should only treat an upper-case OR between terms as an operator', () => {
+    expect(parseQuery('or else').required).toHaveLength(2);
+    expect(parseQuery('OR report').required).toEqual([[{ text: 'report', phrase: false }]]);
+  });
+
+  it('should pull out file and metadata filters', () => {
+    const parsed = parseQuery('contract name:NDA path:clients ext:pdf,.DOCX in:~/Documents author:"Jane Doe"');
+    expect(parsed.text).toBe('contract');
+    expect(parsed.name).toEqual(['nda']);
+    expect(parsed.path).toEqual(['clients']);
+    expect(parsed.ext).toEqual(['pdf', 'docx']);
+    expect(parsed.in).toEqual(['~/Documents']);
+    expect(parsed.metadata).toEqual({ author: 'Jane Doe' });
+  });
+
+  it('should parse date comparisons and periods in local time', () => {
+    expect(parseQuery('modified:>=2024-01-01').modified).toEqual({ min: new Date(2024, 0, 1).getTime() });
+    expect(parseQuery('modified:>2024-01-01').modified).toEqual({ min: new Date(2024, 0, 2).getTime() });
+    expect(parseQuery('modified:2024-03').modified).toEqual({ min: new Date(2024, 2, 1).getTime(), max: new Date(2024, 3, 1).getTime() });
+    expect(parseQuery('modified:2023..2024-06').modified).toEqual({ min: new Date(2023, 0, 1).getTime(), max: new Date(2024, 6, 1).getTime() });
+  });
+
+  it('should parse sizes with units', () => {
+    expect(parseQuery('size:>5MB').size).toEqual({ min: 5 * 1024 ** 2 + 1 });
+    expect(parseQuery('size:>1.5GB').size).toEqual({ min: 1.5 * 1024 ** 3 + 1 });
+    expect(parseQuery('size:<100kb').size).toEqual({ max: 100 * 1024 });
+    expect(parseQuery('size:<=100kb').size).toEqual({ max: 100 * 1024 + 1 });
+    expect(parseQuery('size:1MB..10MB').size).toEqual({ min: 1024 ** 2, max: 10 * 1024 ** 2 + 1 });
+    expect(parseQuery('size:>=1MB size:<2MB').size).toEqual({ min: 1024 ** 2, max: 2 * 1024 ** 2 });
+  });
+
+  it('should reject unreadable filters but ignore empty ones', () => {
+    expect(() => parseQuery('size:>big')).toThrow(QuerySyntaxError);
+    expect(() => parseQuery('modified:2024-02-30')).toThrow(QuerySyntaxError);
+    expect(() => parseQuery('-ext:pdf')).toThrow(QuerySyntaxError);
+    expect(parseQuery('report size:').size).toBeUndefined();
+  });
+
+  it('should keep unknown prefixes as words', () => {
+    expect(parseQuery('meeting 10:30').required).toEqual([[{ text: 'meeting', phrase: false }], [{ text: '10:30', phrase: false }]]);
+  });
+});
+
+describe('withoutStopWordTerms', () => {
+  it('should drop stop words unless the query has nothing else', () => {
+    expect(withoutStopWordTerms(parseQuery('the invoices')).required).toEqual([[{ text: 'invoices', phrase: false }]]);
+    expect(withoutStopWordTerms(parseQuery('"the who"')).required).toHaveLength(1);
+    expect(withoutStopWordTerms(parseQuery('the who')).required).toHaveLength(2);
+    expect(withoutStopWordTerms(parseQuery('red hat'), 'en').required).toHaveLength(2);
+    expect(withoutStopWordTerms(parseQuery('red hat'), 'de').required).toEqual([[{ text: 'red', phrase: false }]]);
+  });
+});
+
+describe('matchesQueryFilters', () => {
+  const file: FilterableFile = {
+    path: path.join(os.homedir(), 'Documents', 'clients', 'acme', 'NDA-2024.pdf'),
+    filename: 'NDA-2024.pdf',
+    lastModified: new Date(2024, 2, 15).getTime(),
+    size: 2 * 1024 ** 2,
+    root: 'Documents'
+  };
+
+  it('should match names, globs, paths and extensions', () => {
+    expect(matchesQueryFilters(file, parseQuery('name:nda path:acme ext:pdf'))).toBe(true);
+    expect(matchesQueryFilters(file, parseQuery('name:nda-*.pdf'))).toBe(true);
+    expect(matchesQueryFilters(file, parseQuery('name:*.docx'))).toBe(false);
+    expect(matchesQueryFilters(file, parseQuery('ext:docx'))).toBe(false);
+    expect(matchesQueryFilters({ ...file, filename: 'Résumé.pdf' }, parseQuery('name:resume'))).toBe(true);
+  });
+
+  it('should match directories and root names', () => {
+    expect(matchesQueryFilters(file, parseQuery('in:~/Documents/clients'))).toBe(true);
+    expect(matchesQueryFilters(file, parseQuery('in:~/Documents/client'))).toBe(false);
+    expect(matchesQueryFilters(file, parseQuery('in:documents'))).toBe(true);
+    expect(matchesQueryFilters(file, parseQuery('in:Downloads'))).toBe(false);
+  });
+
+  it('should match dates and sizes', () => {
+    expect(matchesQueryFilters(file, parseQuery('modified:2024-03 size:>1MB'))).toBe(true);
+    expect(matchesQueryFilters(file, parseQuery('modified:<2024-03-15'))).toBe(false);
+    expect(matchesQueryFilters(file, parseQuery('size:<2MB'))).toBe(false);
+  });
+});
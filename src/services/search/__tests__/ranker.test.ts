@@ -0,0 +1,51 @@
+import { blendSemantic, combineSignals, contentSignal, filenameSignal, recencySignal, semanticSignal, strongestSignal } from '../ranker.js';
+
+describe('ranker', () => {
+  const none = { filename: 0, path: 0, metadata: 0, content: 0, recency: 0 };
+
+  it('should weigh the signals into a score below an exact match', () => {
+    const { score, breakdown } = combineSignals({ filename: 1, path: 1, metadata: 1, content: 1, recency: 1 });
+    expect(score).toBe(0.99);
+    expect(breakdown.filename).toBeCloseTo(0.45);
+    expect(combineSignals(none).score).toBe(0);
+  });
+
+  it('should rank a strong content match above a weak filename match', () => {
+    const weakName = combineSignals({ ...none, filename: filenameSignal({ exact: false, fuzzyScore: 0.4, coverage: 0 }) });
+    const match = { score: 8, matchedTerms: 2, termCount: 2, phrase: true };
+    const strongContent = combineSignals({ ...none, content: contentSignal(match, 1) });
+    expect(strongContent.score).toBeGreaterThan(weakName.score);
+  });
+
+  it('should reward phrases and coverage in content', () => {
+    const match = { score: 2, matchedTerms: 2, termCount: 2, phrase: false };
+    expect(contentSignal({ ...match, phrase: true }, 1)).toBeGreaterThan(contentSignal(match, 1));
+    expect(contentSignal(match, 1)).toBeGreaterThan(contentSignal(match, 0.5));
+    expect(contentSignal(undefined, 1)).toBe(0);
+  });
+
+  it('should halve recency every 180 days', () => {
+    const now = Date.now();
+    expect(recencySignal(now, now)).toBe(1);
+    expect(recencySignal(now - 180 * 24 * 60 * 60 * 1000, now)).toBeCloseTo(0.5);
+  });
+
+  it('should name the strongest signal other than recency', () => {
+    expect(strongestSignal({ filename: 0.1, path: 0, metadata: 0, content: 0.2, recency: 0.5 })).toBe('content');
+    expect(strongestSignal({ filename: 0.1, path: 0, metadata: 0, content: 0.2, recency: 0, semantic: 0.3 })).toBe('semantic');
+  });
+
+  it('should only count similarity above the floor', () => {
+    expect(semanticSignal(0.2)).toBe(0);
+    expect(semanticSignal(1)).toBe(1);
+  });
+
+  it('should blend keyword and semantic scores into a breakdown that adds up', () => {
+    const keyword = combineSignals({ ...none, content: 1 });
+    const hybrid = blendSemantic(keyword, 0.8);
+    const total = Object.values(hybrid.breakdown).reduce((sum, part) => sum + part, 0);
+    expect(hybrid.score).toBeCloseTo(total);
+    expect(hybrid.score).toBeGreaterThan(blendSemantic(null, 0.8).score);
+    expect(blendSemantic(null, 0.8).breakdown.content).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { VectorIndex } from '../vector-index.js';
+
+describe('VectorIndex', () => {
+  const unit = (...values: number[]) => {
+    const norm = Math.hypot(...values);
+    return new Float32Array(values.map(value => value / norm));
+  };
+  let index: VectorIndex;
+
+  beforeEach(() => {
+    index = new VectorIndex('test-model');
+    index.set('/a.txt', [
+      { vector: unit(1, 0, 0) },
+      { passageId: 'p1', vector: unit(0, 1, 0) }
+    ]);
+    index.set('/b.txt', [{ passageId: 'p2', vector: unit(1, 1, 0) }]);
+  });
+
+  it('should return the closest passage of every document', () => {
+    const matches = index.search(unit(0, 1, 0));
+    expect(matches.get('/a.txt')?.similarity).toBeCloseTo(1);
+    expect(matches.get('/a.txt')?.chunk.passageId).toBe('p1');
+    expect(matches.get('/b.txt')?.similarity).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should rename and remove documents', () => {
+    index.rename('/a.txt', '/c.txt');
+    expect(index.has('/a.txt')).toBe(false);
+    expect(index.get('/c.txt')).toHaveLength(2);
+    expect(index.remove('/b.txt')).toBe(true);
+    expect(index.docIds()).toEqual(['/c.txt']);
+  });
+
+  it('should round-trip through JSON', () => {
+    const restored = VectorIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored.model).toBe('test-model');
+    expect(restored.size).toBe(2);
+    expect(restored.get('/b.txt')![0].passageId).toBe('p2');
+    expect(Array.from(restored.get('/b.txt')![0].vector)).toEqual(Array.from(unit(1, 1, 0)));
+  });
+});
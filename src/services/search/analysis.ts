@@ -0,0 +1,213 @@
+import { newStemmer } from 'snowball-stemmers';
+import { tokenize } from './tokenizer.js';
+import type { Token } from './tokenizer.js';
+
+export const SUPPORTED_LANGUAGES = ['en', 'de'] as const;
+
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+// Documents whose language cannot be told are analysed as English
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const STEMMERS: Record<Language, { stem(word: string): string }> = {
+  en: newStemmer('english'),
+  de: newStemmer('german')
+};
+
+// The English stemmer only knows unaccented letters, so "Résumé" is folded
+// first; the German one needs umlauts to find "Haus" in "Häuser"
+const FOLD_BEFORE_STEMMING: Record<Language, boolean> = { en: true, de: false };
+
+function stripMarks(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
+
+const STOP_WORDS: Record<Language, Set<string>> = {
+  en: new Set([
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+    'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'during',
+    'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him',
+    'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'no',
+    'nor', 'not', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same',
+    'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there',
+    'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were',
+    'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours'
+  ]),
+  de: new Set([
+    'aber', 'alle', 'allem', 'allen', 'aller', 'alles', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei',
+    'bin', 'bis', 'bist', 'da', 'damit', 'dann', 'das', 'dass', 'dein', 'deine', 'dem', 'den', 'denn', 'der',
+    'des', 'dich', 'die', 'dies', 'diese', 'diesem', 'diesen', 'dieser', 'dieses', 'dir', 'doch', 'dort', 'du',
+    'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines', 'er', 'es', 'euch', 'euer', 'für', 'hab',
+    'habe', 'haben', 'hat', 'hatte', 'hier', 'ich', 'ihm', 'ihn', 'ihnen', 'ihr', 'ihre', 'im', 'in', 'ist',
+    'ja', 'jede', 'jedem', 'jeden', 'jeder', 'jetzt', 'kann', 'kein', 'keine', 'mich', 'mir', 'mit', 'muss',
+    'nach', 'nicht', 'nichts', 'noch', 'nun', 'nur', 'ob', 'oder', 'ohne', 'sehr', 'sein', 'seine', 'sich',
+    'sie', 'sind', 'so', 'soll', 'um', 'und', 'uns', 'unser', 'unter', 'vom', 'von', 'vor', 'war', 'waren',
+    'was', 'weil', 'wenn', 'wer', 'werden', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur', 'über'
+  ])
+};
+
+// Words read when detecting a document's language
+const DETECTION_SAMPLE_WORDS = 1000;
+
+// Stems are memoised; the same words come up in every search
+const MAX_CACHED_STEMS = 50000;
+const stemCache = new Map<string, string>();
+
+/**
+ * Lower-case text and strip accents without changing its length, so offsets
+ * into the result are offsets into the original: "Café" gives "cafe".
+ * Characters whose folded form would be longer or shorter are kept as they are.
+ */
+export function foldDiacritics(text: string): string {
+  let folded = '';
+  for (const char of text) {
+    const lower = char.toLowerCase();
+    const stripped = stripMarks(lower);
+    folded += stripped.length === char.length ? stripped : lower.length === char.length ? lower : char;
+  }
+  return folded;
+}
+
+export function isStopWord(word: string, language?: Language): boolean {
+  const lower = word.toLowerCase();
+  return language ? STOP_WORDS[language].has(lower) : SUPPORTED_LANGUAGES.some(code => STOP_WORDS[code].has(lower));
+}
+
+/**
+ * The term a word is indexed and searched under: compatibility-normalised
+ * (so ligatures and full-width letters read as plain letters), lower-cased,
+ * stemmed for the language and stripped of accents. "Invoices" and
+ * "invoice" both give "invoic", German "Häuser" and "Haus" both give "haus".
+ */
+export function analyzeWord(word: string, language: Language): string {
+  const key = `${language}:${word}`;
+  const cached = stemCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const lower = word.normalize('NFKC').toLowerCase();
+  const normalized = FOLD_BEFORE_STEMMING[language] ? stripMarks(lower) : lower;
+  // Numbers and very short words are left alone
+  const stemmed = normalized.length > 2 && /^\p{L}+$/u.test(normalized) ? STEMMERS[language].stem(normalized) : normalized;
+  const term = stripMarks(stemmed);
+  if (stemCache.size >= MAX_CACHED_STEMS) {
+    stemCache.clear();
+  }
+  stemCache.set(key, term);
+  return term;
+}
+
+/**
+ * Guess a document's language from the stop words it uses. Text without a
+ * clear signal, such as a spreadsheet of numbers, is taken to be English.
+ */
+export function detectLanguage(text: string): Language {
+  const counts: Record<Language, number> = { en: 0, de: 0 };
+  let words = 0;
+  for (const token of tokenize(text)) {
+    if (words++ >= DETECTION_SAMPLE_WORDS) {
+      break;
+    }
+    for (const language of SUPPORTED_LANGUAGES) {
+      if (STOP_WORDS[language].has(token.term)) {
+        counts[language]++;
+      }
+    }
+  }
+  return counts.de > counts.en ? 'de' : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Tokens of a document as they are indexed, analysed for its language. Stop
+ * words are left out but still count towards positions, so "bill of lading"
+ * is still found as a phrase.
+ */
+export function analyze(text: string, language: Language): Token[] {
+  return tokenize(text)
+    .filter(token => !STOP_WORDS[language].has(token.term))
+    .map(token => ({ ...token, term: analyzeWord(token.term, language) }));
+}
+
+/**
+ * The terms a query word may have been indexed under: its stem in each
+ * supported language, typed with or without accents.
+ */
+export function queryVariants(word: string): string[] {
+  const variants = new Set<string>();
+  for (const language of SUPPORTED_LANGUAGES) {
+    variants.add(analyzeWord(word, language));
+    variants.add(analyzeWord(foldDiacritics(word), language));
+  }
+  return Array.from(variants);
+}
+
+export interface QueryToken {
+  variants: string[];     // Indexed terms the word matches
+  position: number;       // Position of the word in the query
+  stopWordIn: Language[]; // Languages whose documents are not indexed under the word
+}
+
+/**
+ * Analyse query text for searching the index. Every word is kept, with the
+ * languages it is a stop word in: "hat" is one in German but not in English.
+ */
+export function analyzeQuery(text: string): QueryToken[] {
+  return tokenize(text).map(token => ({
+    variants: queryVariants(token.term),
+    position: token.position,
+    stopWordIn: SUPPORTED_LANGUAGES.filter(language => STOP_WORDS[language].has(token.term))
+  }));
+}
+
+/**
+ * The query words a document in a language is matched on: all but the stop
+ * words of its language, unless the query has nothing else.
+ */
+export function queryTokensFor(tokens: QueryToken[], language: Language): QueryToken[] {
+  const content = tokens.filter(token => !token.stopWordIn.includes(language));
+  return content.length > 0 ? content : tokens;
+}
+
+/**
+ * Where the words of a query term first occur in text, in any form, or -1:
+ * "invoices" for "invoice", "Café" for "cafe". Without a language, the
+ * text's words are tried as each supported language.
+ */
+export function findWords(text: string, term: string, language?: Language): number {
+  const termWords = tokenize(term).map(token => new Set(queryVariants(token.term)));
+  if (termWords.length === 0) {
+    return -1;
+  }
+  const languages = language ? [language] : SUPPORTED_LANGUAGES;
+  const textTokens = tokenize(text);
+  const stems = textTokens.map(token => languages.map(code => analyzeWord(token.term, code)));
+  for (let i = 0; i + termWords.length <= textTokens.length; i++) {
+    if (termWords.every((variants, k) => stems[i + k].some(stem => variants.has(stem)))) {
+      return textTokens[i].offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Where a query term first occurs in text, or -1: as written, ignoring case
+ * and accents, or as the same words in another form.
+ */
+export function findTermOffset(text: string, term: string, language?: Language): number {
+  const foldedTerm = foldDiacritics(term);
+  const direct = foldedTerm.trim() ? foldDiacritics(text).indexOf(foldedTerm) : -1;
+  if (direct === 0) {
+    return direct;
+  }
+  // Only the text before a direct match can hold an earlier one
+  const words = findWords(direct >= 0 ? text.substring(0, direct) : text, term, language);
+  return words >= 0 ? words : direct;
+}
+
+export function containsTerm(text: string, term: string, language?: Language): boolean {
+  const foldedTerm = foldDiacritics(term);
+  if (foldedTerm.trim() && foldDiacritics(text).includes(foldedTerm)) {
+    return true;
+  }
+  return findWords(text, term, language) >= 0;
+}
@@ -0,0 +1,39 @@
+export interface TextChunk {
+  text: string;
+  start: number; // Character offset of the chunk in the text
+  end: number;   // Offset just past its last character
+}
+
+export interface ChunkOptions {
+  maxWords?: number;  // Words per chunk
+  overlap?: number;   // Words repeated from the end of the previous chunk
+  maxChunks?: number; // Chunks kept per text, from its start
+}
+
+// About 200 words fit in the 256 word pieces the embedding model reads
+const DEFAULT_MAX_WORDS = 200;
+const DEFAULT_OVERLAP = 40;
+const DEFAULT_MAX_CHUNKS = 64;
+
+/**
+ * Split text into overlapping passages of whole words, so a sentence cut at
+ * the end of one chunk is read in full by the next.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxWords = Math.max(1, options.maxWords ?? DEFAULT_MAX_WORDS);
+  const overlap = Math.min(Math.max(0, options.overlap ?? DEFAULT_OVERLAP), maxWords - 1);
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_CHUNKS;
+
+  const words = Array.from(text.matchAll(/\S+/g), match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+  const chunks: TextChunk[] = [];
+  for (let first = 0; first < words.length && chunks.length < maxChunks; first += maxWords - overlap) {
+    const last = Math.min(first + maxWords, words.length) - 1;
+    const start = words[first].start;
+    const end = words[last].end;
+    chunks.push({ text: text.slice(start, end), start, end });
+    if (last === words.length - 1) {
+      break;
+    }
+  }
+  return chunks;
+}
@@ -0,0 +1,141 @@
+import path from 'path';
+import { splitVirtualPath } from '../archives/index.js';
+
+export const FACET_FIELDS = ['ext', 'folder', 'modified', 'size', 'root'] as const;
+
+export type FacetField = typeof FACET_FIELDS[number];
+
+export interface FacetValue {
+  value: string;  // Stable key, e.g. pdf, week or the folder's path
+  label: string;  // For display, e.g. PDF, Past 7 days or the folder's name
+  count: number;  // Matching files with this value
+  filter: string; // Query filter that narrows a search to this value, e.g. ext:pdf
+}
+
+export type SearchFacets = Record<FacetField, FacetValue[]>;
+
+// The file properties facets are counted on
+export interface FacetableFile {
+  path: string;
+  filename: string;
+  lastModified: number;
+  size: number;
+  root?: string;
+}
+
+export interface FacetOptions {
+  rootPathFor: (filePath: string) => string | undefined;
+  now?: number;
+  maxValues?: number; // Values kept for the open-ended facets: extension, folder and root
+}
+
+const DEFAULT_MAX_VALUES = 20;
+
+// Modification date buckets, counted cumulatively: a file changed today is
+// also in the past 7 days. Older covers what the past year does not.
+const MODIFIED_BUCKETS = [
+  { value: 'today', label: 'Today', days: 1 },
+  { value: 'week', label: 'Past 7 days', days: 7 },
+  { value: 'month', label: 'Past 30 days', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 }
+];
+
+// Size buckets, each covering its own range
+const SIZE_BUCKETS = [
+  { value: 'tiny', label: 'Under 100 KB', max: 100 * 1024, filter: 'size:<100KB' },
+  { value: 'small', label: '100 KB to 1 MB', max: 1024 ** 2, filter: 'size:>=100KB size:<1MB' },
+  { value: 'medium', label: '1 to 10 MB', max: 10 * 1024 ** 2, filter: 'size:>=1MB size:<10MB' },
+  { value: 'large', label: '10 to 100 MB', max: 100 * 1024 ** 2, filter: 'size:>=10MB size:<100MB' },
+  { value: 'huge', label: 'Over 100 MB', max: Infinity, filter: 'size:>=100MB' }
+];
+
+function formatLocalDate(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Filter values with spaces have to be quoted
+function filterValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function countBy(files: FacetableFile[], key: (file: FacetableFile) => string | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const value = key(file);
+    if (value) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Most common first, ties in name order
+function topValues(counts: Map<string, number>, maxValues: number, describe: (value: string) => Omit<FacetValue, 'value' | 'count'>): FacetValue[] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxValues)
+    .map(([value, count]) => ({ value, count, ...describe(value) }));
+}
+
+/**
+ * Count the matches of a search by extension, top-level folder of their root,
+ * modification date, size and root. Each value carries the query filter that
+ * narrows the search to it, so a client can refine without knowing the syntax.
+ */
+export function computeFacets(files: FacetableFile[], options: FacetOptions): SearchFacets {
+  const maxValues = options.maxValues ?? DEFAULT_MAX_VALUES;
+  const now = options.now ?? Date.now();
+
+  const extensions = countBy(files, file => path.extname(file.filename).toLowerCase().slice(1));
+
+  // Files inside archives count towards the folder of their archive
+  const folders = countBy(files, file => {
+    const diskPath = splitVirtualPath(file.path).filePath;
+    const rootPath = options.rootPathFor(diskPath);
+    if (!rootPath) {
+      return undefined;
+    }
+    const [topLevel, ...rest] = path.relative(rootPath, diskPath).split(path.sep);
+    return rest.length > 0 ? path.join(rootPath, topLevel) : undefined;
+  });
+
+  const roots = countBy(files, file => file.root);
+
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  const modified: FacetValue[] = MODIFIED_BUCKETS.map(bucket => {
+    const since = new Date(startOfToday).setDate(new Date(startOfToday).getDate() - (bucket.days - 1));
+    return {
+      value: bucket.value,
+      label: bucket.label,
+      count: files.filter(file => file.lastModified >= since).length,
+      filter: `modified:>=${formatLocalDate(since)}`
+    };
+  });
+  const yearStart = new Date(startOfToday).setDate(new Date(startOfToday).getDate() - 364);
+  modified.push({
+    value: 'older',
+    label: 'Older',
+    count: files.filter(file => file.lastModified < yearStart).length,
+    filter: `modified:<${formatLocalDate(yearStart)}`
+  });
+
+  const size: FacetValue[] = SIZE_BUCKETS.map((bucket, index) => {
+    const min = index > 0 ? SIZE_BUCKETS[index - 1].max : 0;
+    return {
+      value: bucket.value,
+      label: bucket.label,
+      count: files.filter(file => file.size >= min && file.size < bucket.max).length,
+      filter: bucket.filter
+    };
+  });
+
+  return {
+    ext: topValues(extensions, maxValues, ext => ({ label: ext.toUpperCase(), filter: `ext:${filterValue(ext)}` })),
+    folder: topValues(folders, maxValues, folder => ({ label: path.basename(folder), filter: `in:${filterValue(folder)}` })),
+    modified: modified.filter(value => value.count > 0),
+    size: size.filter(value => value.count > 0),
+    root: topValues(roots, maxValues, root => ({ label: root, filter: `in:${filterValue(root)}` }))
+  };
+}
@@ -0,0 +1,45 @@
+import type { DocumentMetadata } from '../extractors/index.js';
+import type { Language } from './analysis.js';
+import { InvertedIndex } from './inverted-index.js';
+import { metadataText } from './metadata.js';
+
+export interface FieldEntry {
+  path: string;
+  filename: string;
+  metadata?: DocumentMetadata;
+  language?: Language;
+}
+
+/**
+ * The words of each file's path and metadata, and the files by name. A
+ * search looks up here which files a query can match outside their content,
+ * so it only has to score those rather than every file in the index.
+ */
+export class FieldIndex {
+  private words = new InvertedIndex();
+  private pathsByFilename = new Map<string, Set<string>>();
+
+  public add(entry: FieldEntry): void {
+    this.words.add(entry.path, `${entry.path}\n${metadataText(entry.metadata)}`, entry.language);
+    const paths = this.pathsByFilename.get(entry.filename) ?? new Set<string>();
+    this.pathsByFilename.set(entry.filename, paths.add(entry.path));
+  }
+
+  public remove(entry: FieldEntry): void {
+    this.words.remove(entry.path);
+    const paths = this.pathsByFilename.get(entry.filename);
+    paths?.delete(entry.path);
+    if (paths?.size === 0) {
+      this.pathsByFilename.delete(entry.filename);
+    }
+  }
+
+  // Files whose path or metadata hold a word of the term, or a word starting with it
+  public search(term: string): Iterable<string> {
+    return this.words.search(term, { prefix: true }).keys();
+  }
+
+  public pathsNamed(filename: string): Iterable<string> {
+    return this.pathsByFilename.get(filename) ?? [];
+  }
+}
@@ -2,24 +2,62 @@ import { EventEmitter } from 'events';
 import path from 'path';
 import Fuse from 'fuse.js';
 import { mcpService } from '../mcp/index.js';
+import type { MCPFileContent } from '../mcp/index.js';
+import type { RootWatcher } from '../mcp/watcher.js';
+import { getContainingArchive, joinVirtualPath, ARCHIVE_SEPARATOR } from '../archives/index.js';
+import { locateOffset } from '../extractors/segments.js';
+import type { SnippetLocation } from '../extractors/segments.js';
+import type { ContentSegment, DocumentMetadata } from '../extractors/index.js';
+import { findMetadataMatches, hasMetadataFilter, matchesMetadataFilter } from './metadata.js';
+import type { MetadataFilter, MetadataFilterField } from './metadata.js';
+import { hasQueryFilters, matchesQueryFilters, parseQuery, withoutStopWordTerms } from './query.js';
+import type { ParsedQuery, QueryTerm } from './query.js';
+import { blendSemantic, combineSignals, contentSignal, filenameSignal, recencySignal, semanticSignal, strongestSignal, MIN_SEMANTIC_SIMILARITY, SEMANTIC_WEIGHT } from './ranker.js';
+import type { ScoreBreakdown } from './ranker.js';
+import { computeFacets } from './facets.js';
+import type { SearchFacets } from './facets.js';
+import { InvertedIndex } from './inverted-index.js';
+import { FieldIndex } from './field-index.js';
+import { containsTerm, DEFAULT_LANGUAGE, detectLanguage, findTermOffset, foldDiacritics, isStopWord } from './analysis.js';
+import type { Language } from './analysis.js';
+import { VectorIndex } from './vector-index.js';
+import type { VectorMatch } from './vector-index.js';
+import { passageCoverage, splitPassages } from './passages.js';
+import type { Passage } from './passages.js';
+import { loadEmbedder } from '../embeddings/index.js';
+import type { Embedder } from '../embeddings/index.js';
+import { getSnapshotPath, readSnapshot, writeSnapshot, SNAPSHOT_VERSION } from './snapshot.js';
+import type { ContentMatch } from './inverted-index.js';
 
 interface BasicIndexEntry {
   path: string;
   filename: string;
   lastModified: number;
   size: number;
+  root?: string; // Name of the configured index root the file was found under
+  archive?: string; // Archive holding the file when its path is virtual, e.g. bundle.zip for bundle.zip!/q3.pdf
+  hash?: string; // SHA-1 of the file's bytes when they were read for extraction
   content?: string; // Optional content field
+  segments?: ContentSegment[]; // Document locations of content ranges, e.g. spreadsheet rows
+  metadata?: DocumentMetadata; // Title, author, page count, EXIF data and similar
+  passages?: Passage[]; // Overlapping passages of the content, cut when the file was indexed
+  language?: Language; // Language the content is stemmed for, detected when the file was indexed
 }
 
 interface SnippetMatch {
   text: string;
   score: number;
-  position: number;
+  position: number; // Character offset of the match in the content
+  location?: SnippetLocation; // Sheet/row/cell of the match, when the extractor recorded one
+  passageId?: string; // Passage the snippet was cut from
 }
 
 interface SearchResult extends BasicIndexEntry {
   score: number;
-  matchType: 'exact' | 'fuzzy' | 'path' | 'content';
+  matchType: 'exact' | 'fuzzy' | 'path' | 'metadata' | 'content' | 'filter' | 'semantic';
+  matchedFields?: MetadataFilterField[]; // Metadata fields that matched the query
+  scoreBreakdown?: ScoreBreakdown; // What the filename, path, metadata, content and recency added to the score
+  passage?: Passage; // Passage closest in meaning to the query, for hybrid and semantic searches
   snippets?: SnippetMatch[];
 }
 
@@ -27,6 +65,134 @@ interface SearchOptions {
   fileTypes?: string[];  // List of file extensions to filter by (e.g. ['pdf', 'txt'])
   snippetContextSize?: number;
   maxSnippets?: number;
+  limit?: number;  // Results per page, 10 by default and at most MAX_SEARCH_LIMIT
+  offset?: number; // Results to skip, for the following pages
+  metadata?: MetadataFilter; // Only return files whose metadata matches, e.g. { author: 'jane' }
+}
+
+// keyword: words and filters only. hybrid: keyword and semantic scores
+// merged. semantic: similarity in meaning only, with the query's filters.
+export const SEARCH_MODES = ['keyword', 'hybrid', 'semantic'] as const;
+
+export type SearchMode = typeof SEARCH_MODES[number];
+
+interface SemanticSearchOptions extends SearchOptions {
+  mode?: SearchMode; // hybrid by default
+}
+
+interface SemanticContext {
+  mode: Exclude<SearchMode, 'keyword'>;
+  vector: Float32Array;              // The query's embedding
+  matches: Map<string, VectorMatch>; // Path -> closest passage to the query
+}
+
+interface PassageSearchOptions {
+  fileTypes?: string[];
+  metadata?: MetadataFilter;
+  limit?: number;    // Passages returned, 10 by default and at most MAX_SEARCH_LIMIT
+  mode?: SearchMode; // keyword by default
+}
+
+interface PassageResult {
+  path: string;
+  filename: string;
+  root?: string;
+  passage: Passage; // ID, offsets and anchor of the passage in the file's content
+  text: string;
+  score: number;
+  documentScore: number; // Score of the whole file for the query
+}
+
+interface PassagePage {
+  passages: PassageResult[];
+  total: number;    // Matching passages across the documents searched
+  mode: SearchMode; // The mode used, keyword when semantic search is unavailable
+}
+
+interface ScoringContext {
+  fuzzyScores: Map<string, number>;         // Filename -> Fuse score (0 is a perfect match)
+  contentMatches: Map<string, ContentMatch>; // Path -> BM25 content match
+  termMatches: Map<QueryTerm, Map<string, ContentMatch>>; // Content matches of each query term on its own
+  now: number;                               // Reference time for recency
+}
+
+// Where a single query term was found in a file
+type TermMatch = 'name' | 'path' | 'metadata' | 'content';
+
+// The match type a result reports for the signal that contributed most
+const MATCH_TYPES: Record<ReturnType<typeof strongestSignal>, SearchResult['matchType']> = {
+  filename: 'fuzzy',
+  path: 'path',
+  metadata: 'metadata',
+  content: 'content',
+  semantic: 'semantic'
+};
+
+// Fields the index keeps for itself, left out of what clients are sent
+const INTERNAL_FIELDS = ['content', 'segments', 'hash', 'passages', 'language'] as const;
+
+type InternalField = typeof INTERNAL_FIELDS[number];
+
+type PublicSearchResult = Omit<SearchResult, InternalField>;
+
+interface SearchPage {
+  results: PublicSearchResult[];
+  total: number; // Matches across all pages
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  facets: SearchFacets; // Counts over all matches, by extension, folder, date, size and root
+}
+
+// An indexed file as listed to clients browsing the index
+interface IndexedDocument {
+  path: string;
+  filename: string;
+  root?: string;
+  archive?: string; // Archive holding the file when its path is virtual
+  size: number;
+  lastModified: number;
+  metadata?: DocumentMetadata;
+}
+
+// An entry or result as sent to clients, without its content and the index's internal fields
+function toPublicEntry<T extends BasicIndexEntry>(entry: T): Omit<T, InternalField> {
+  const publicEntry: Partial<T> = { ...entry };
+  for (const field of INTERNAL_FIELDS) {
+    delete publicEntry[field];
+  }
+  return publicEntry as Omit<T, InternalField>;
+}
+
+interface SemanticSearchPage extends SearchPage {
+  mode: SearchMode; // The mode used, keyword when semantic search is unavailable
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Live changes are written to the snapshot at most this often
+const SNAPSHOT_DELAY_MS = 30 * 1000;
+
+// Passages embedded per model run
+const EMBEDDING_BATCH_SIZE = 16;
+
+// Passages embedded per file, from its start; enough for about 10,000 words
+const MAX_EMBEDDED_PASSAGES = 64;
+
+// Passage searches look at the passages of this many of the best matching files
+const PASSAGE_CANDIDATE_DOCUMENTS = 50;
+
+// Share of a passage's score that comes from the passage itself rather than its file
+const PASSAGE_WEIGHT = 0.7;
+
+// Times a term occurs in text, as typed: "c++" is not a pattern
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); term && index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
 }
 
 interface FuseResult {
@@ -37,7 +203,21 @@ interface FuseResult {
 export class SearchIndex extends EventEmitter {
   private memoryIndex: Map<string, BasicIndexEntry>;
   private filenameIndex: Fuse<string>;
+  private contentIndex: InvertedIndex;
+  private fieldIndex: FieldIndex; // Words of each file's path and metadata, and files by name
   private isIndexing: boolean;
+  private indexingAbort: AbortController | null = null;
+  private buildRun: Promise<void> | null = null; // The running build, for callers to wait on
+  private snapshotPath: string | null;
+  private indexedWith: string[] | null = null; // Extractors the current entries were extracted with
+  private watcher: RootWatcher | null = null;
+  private pendingChanges = new Set<string>(); // Changed paths not yet applied to the index
+  private changeQueue: Promise<void> = Promise.resolve();
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private vectorIndex: VectorIndex | null = null;
+  private loadEmbedder: (() => Promise<Embedder | null>) | null;
+  private embedder: Promise<Embedder | null> | null = null;
+  private embeddingQueue: Promise<void> = Promise.resolve();
 
   // Fuse.js options for filename matching
   private readonly fuseOptions = {
@@ -47,25 +227,37 @@ export class SearchIndex extends EventEmitter {
     includeScore: true
   };
 
-  constructor() {
+  /**
+   * @param options.snapshotPath Where to persist the index between runs.
+   *   Without it the index only lives in memory.
+   * @param options.loadEmbedder Loads the model passages are embedded with
+   *   for semantic search. Without it, or when it gives null, searches only
+   *   match keywords.
+   */
+  constructor(options: { snapshotPath?: string; loadEmbedder?: () => Promise<Embedder | null> } = {}) {
     super();
+    this.snapshotPath = options.snapshotPath ?? null;
+    this.loadEmbedder = options.loadEmbedder ?? null;
     this.memoryIndex = new Map();
     this.filenameIndex = new Fuse([], this.fuseOptions);
+    this.contentIndex = new InvertedIndex();
+    this.fieldIndex = new FieldIndex();
     this.isIndexing = false;
   }
 
-  private extractSnippets(content: string, query: string, maxSnippets: number = 3, contextSize: number = 60): SnippetMatch[] {
+  private extractSnippets(content: string, query: string, maxSnippets: number = 3, contextSize: number = 60, segments?: ContentSegment[], passages: Passage[] = [], language?: Language): SnippetMatch[] {
     if (!content || content.trim().length === 0) {
       console.warn('Warning: Attempting to extract snippets from empty content');
       return [];
     }
 
-    const normalizedContent = content.toLowerCase();
-    const normalizedQuery = query.toLowerCase();
+    // Folding keeps offsets, so positions in the folded text are positions in the content
+    const normalizedContent = foldDiacritics(content);
+    const normalizedQuery = foldDiacritics(query);
     const matches: SnippetMatch[] = [];
     
     // Split query into words for better partial matching
-    const queryWords = normalizedQuery.split(/\s+/).filter(word => word.length > 2);
+    const queryWords = normalizedQuery.split(/\s+/).filter(word => word.length > 2 && !isStopWord(word, language));
     
     // First try exact phrase matching
     let lastIndex = 0;
@@ -82,7 +274,7 @@ export class SearchIndex extends EventEmitter {
 
       // Calculate snippet relevance score
       const positionScore = 1 - (lastIndex / content.length);
-      const termScore = (snippet.toLowerCase().match(new RegExp(normalizedQuery, 'g')) || []).length * 0.2;
+      const termScore = countOccurrences(foldDiacritics(snippet), normalizedQuery) * 0.2;
       const score = positionScore + termScore + 0.5; // Higher base score for exact matches
 
       matches.push({
@@ -98,38 +290,31 @@ export class SearchIndex extends EventEmitter {
     if (!exactMatches || matches.length < maxSnippets) {
       console.log(`Trying partial matches for "${normalizedQuery}" with words: ${queryWords.join(', ')}`);
       
-      // For each paragraph or section in the content
-      const paragraphs = content.split(/\n\s*\n/);
-      for (let i = 0; i < paragraphs.length; i++) {
-        const paragraph = paragraphs[i];
+      // For each passage cut when the file was indexed
+      for (let i = 0; i < passages.length; i++) {
+        const paragraph = content.substring(passages[i].start, passages[i].end);
         if (paragraph.trim().length === 0) continue;
         
-        const paragraphLower = paragraph.toLowerCase();
         let matchScore = 0;
         let hasMatch = false;
+        let firstMatchPos = Infinity;
         
-        // Check if any query words appear in this paragraph
+        // Check if any query words appear in this passage, in any form
         for (const word of queryWords) {
-          if (paragraphLower.includes(word)) {
+          const pos = findTermOffset(paragraph, word, language);
+          if (pos !== -1) {
             matchScore += 0.2;
             hasMatch = true;
+            firstMatchPos = Math.min(firstMatchPos, pos);
           }
         }
         
-        // If we found any matches in this paragraph
+        // If we found any matches in this passage
         if (hasMatch) {
-          // Trim paragraph if it's too long
+
+          // Trim passage if it's too long
           let snippet = paragraph;
           if (snippet.length > contextSize * 3) {
-            // Find the position of the first matching word
-            let firstMatchPos = Infinity;
-            for (const word of queryWords) {
-              const pos = paragraphLower.indexOf(word);
-              if (pos !== -1 && pos < firstMatchPos) {
-                firstMatchPos = pos;
-              }
-            }
-            
             // Extract snippet around the first match
             const snippetStart = Math.max(0, firstMatchPos - contextSize);
             const snippetEnd = Math.min(paragraph.length, firstMatchPos + contextSize * 2);
@@ -138,13 +323,13 @@ export class SearchIndex extends EventEmitter {
             if (snippetEnd < paragraph.length) snippet = snippet + '...';
           }
           
-          // Add position score based on paragraph position in document
-          const positionScore = 1 - (i / paragraphs.length) * 0.3;
+          // Add position score based on passage position in document
+          const positionScore = 1 - (i / passages.length) * 0.3;
           
           matches.push({
             text: snippet,
             score: matchScore + positionScore,
-            position: i * 1000 // Use paragraph index as position
+            position: passages[i].start + firstMatchPos
           });
         }
       }
@@ -154,21 +339,18 @@ export class SearchIndex extends EventEmitter {
     if (matches.length === 0) {
       console.log(`No matches found, extracting representative content for "${normalizedQuery}"`);
       
-      // Extract a few sections from the beginning of the document
-      const sections = content.split(/\n\s*\n/).filter(s => s.trim().length > 0);
-      const representativeSections = sections.slice(0, Math.min(3, sections.length));
-      
-      representativeSections.forEach((section, idx) => {
-        // Trim section if it's too long
-        let snippet = section;
+      // Take the first few passages of the document
+      passages.slice(0, 3).forEach((passage, idx) => {
+        // Trim passage if it's too long
+        let snippet = content.substring(passage.start, passage.end);
         if (snippet.length > contextSize * 2) {
           snippet = snippet.substring(0, contextSize * 2) + '...';
         }
         
         matches.push({
           text: snippet,
-          score: 0.3 - (idx * 0.1), // Decreasing score for each section
-          position: idx * 1000
+          score: 0.3 - (idx * 0.1), // Decreasing score for each passage
+          position: passage.start
         });
       });
     }
@@ -178,6 +360,7 @@ export class SearchIndex extends EventEmitter {
     for (const match of matches) {
       const isDuplicate = uniqueMatches.some(existing => 
         existing.text === match.text || 
+        existing.position === match.position || // The same match seen from two overlapping passages
         (Math.abs(existing.position - match.position) < contextSize / 2 && 
          existing.text.length > 0 && match.text.length > 0 &&
          (existing.text.includes(match.text) || match.text.includes(existing.text)))
@@ -188,180 +371,850 @@ export class SearchIndex extends EventEmitter {
       }
     }
 
-    // Sort by score and take top N
+    // Sort by score and take top N, resolving where each match sits in the
+    // document and the passage it belongs to
     return uniqueMatches
       .sort((a, b) => b.score - a.score)
-      .slice(0, maxSnippets);
+      .slice(0, maxSnippets)
+      .map(match => {
+        const location = locateOffset(segments, match.position);
+        const passageId = passages.find(passage => match.position >= passage.start && match.position < passage.end)?.id;
+        return { ...match, ...(location ? { location } : {}), ...(passageId ? { passageId } : {}) };
+      });
   }
 
-  private calculateScore(entry: BasicIndexEntry, query: string, options: { snippetContextSize?: number, maxSnippets?: number } = {}): SearchResult | null {
-    const normalizedQuery = query.toLowerCase();
-    const filename = entry.filename.toLowerCase();
+  /**
+   * Score a file on its filename, path, metadata, content and age, or return
+   * null when it does not match. A filename close to the whole query matches
+   * on its own; otherwise each word, phrase or OR group has to be found
+   * somewhere in the file. Exact filename matches always score 1.0.
+   */
+  private calculateScore(entry: BasicIndexEntry, parsed: ParsedQuery, context: ScoringContext): SearchResult | null {
+    const query = withoutStopWordTerms(parsed, entry.language ?? DEFAULT_LANGUAGE);
+    const filename = entry.filename;
     const filenameWithoutExt = filename.substring(0, filename.lastIndexOf('.'));
-    const path = entry.path.toLowerCase();
-    const content = entry.content?.toLowerCase() || '';
-
-    // Exact filename match (highest priority)
-    if (filenameWithoutExt === normalizedQuery) {
-      return {
-        ...entry,
-        score: 1.0,
-        matchType: 'exact'
-      };
+    const directory = entry.path.slice(0, entry.path.length - filename.length);
+    // "Resume" is an exact match for Résumé.pdf
+    const exact = foldDiacritics(filenameWithoutExt) === foldDiacritics(query.text);
+    const fuzzyScore = context.fuzzyScores.get(entry.filename);
+
+    if (!exact && fuzzyScore === undefined &&
+        !query.required.every(group => group.some(term => this.findTermMatch(entry, term, context) !== null))) {
+      return null;
     }
 
-    // Fuzzy filename match
-    const fuseResults = this.filenameIndex.search(normalizedQuery);
-    const filenameMatch = fuseResults.find(result => result.item === entry.filename);
-    if (filenameMatch) {
-      const fuseScore = 1 - (filenameMatch.score || 0);
-      const score = 0.6 + (fuseScore * 0.3);
-      return {
-        ...entry,
-        score,
-        matchType: 'fuzzy'
-      };
+    // Share of the query's words, or OR groups, found in a part of the file
+    const coverage = (found: (term: QueryTerm) => boolean) =>
+      query.required.length > 0 ? query.required.filter(group => group.some(found)).length / query.required.length : 0;
+    const matchedFields = Array.from(new Set(query.required.flat().flatMap(term => findMetadataMatches(entry.metadata, term.text))));
+
+    const { score, breakdown } = combineSignals({
+      filename: filenameSignal({ exact, fuzzyScore, coverage: coverage(term => containsTerm(filename, term.text)) }),
+      path: coverage(term => containsTerm(directory, term.text)),
+      metadata: coverage(term => findMetadataMatches(entry.metadata, term.text).length > 0),
+      content: contentSignal(context.contentMatches.get(entry.path), coverage(term => this.matchesContent(entry, term, context))),
+      recency: recencySignal(entry.lastModified, context.now)
+    });
+
+    const result: SearchResult = {
+      ...entry,
+      score: exact ? 1.0 : score,
+      matchType: exact ? 'exact' : MATCH_TYPES[strongestSignal(breakdown)],
+      scoreBreakdown: breakdown
+    };
+    if (matchedFields.length > 0) {
+      result.matchedFields = matchedFields;
     }
+    return result;
+  }
 
-    // Path contains query
-    const pathWithoutFilename = path.substring(0, path.length - filename.length);
-    if (pathWithoutFilename.includes(normalizedQuery)) {
-      return {
-        ...entry,
-        score: 0.5,
-        matchType: 'path'
-      };
+  /**
+   * Score a file on its keyword match blended with how close its best
+   * passage is to the query in meaning, or return null when it matches on
+   * neither. Semantic mode leaves the keyword match out.
+   */
+  private calculateHybridScore(entry: BasicIndexEntry, query: ParsedQuery, context: ScoringContext, semantic: SemanticContext): SearchResult | null {
+    const match = semantic.matches.get(entry.path);
+    const similarity = match?.similarity ?? 0;
+    const keyword = semantic.mode === 'hybrid' ? this.calculateScore(entry, query, context) : null;
+    if (!keyword && similarity < MIN_SEMANTIC_SIMILARITY) {
+      return null;
     }
 
-    // Content contains query or parts of the query
-    if (content) {
-      // Always extract snippets, even if we don't find exact matches
-      const snippets = this.extractSnippets(
-        entry.content!, 
-        query, 
-        options.maxSnippets || 3,
-        options.snippetContextSize || 60
-      );
-      
-      // Check for exact content match
-      if (content.includes(normalizedQuery)) {
-        const occurrences = (content.match(new RegExp(normalizedQuery, 'g')) || []).length;
-        const score = Math.min(0.3 + (occurrences * 0.1), 0.4);
-        
-        return {
-          ...entry,
-          score,
-          matchType: 'content',
-          snippets: snippets.length > 0 ? snippets : undefined
-        };
-      }
-      
-      // Check for partial matches (individual words)
-      const queryWords = normalizedQuery.split(/\s+/).filter(word => word.length > 2);
-      if (queryWords.length > 0) {
-        const matchingWords = queryWords.filter(word => content.includes(word));
-        if (matchingWords.length > 0) {
-          // Calculate score based on how many words match
-          const matchRatio = matchingWords.length / queryWords.length;
-          const score = Math.min(0.2 + (matchRatio * 0.2), 0.35);
-          
-          console.log(`Partial match for "${query}" in ${entry.filename}: ${matchingWords.length}/${queryWords.length} words match`);
-          
-          return {
-            ...entry,
-            score,
-            matchType: 'content',
-            snippets: snippets.length > 0 ? snippets : undefined
-          };
-        }
-      }
-      
-      // If we have any snippets but no matches were found above, still return a result
-      if (snippets.length > 0) {
-        console.log(`No direct matches found for "${query}" in ${entry.filename}, but returning representative snippets`);
-        return {
-          ...entry,
-          score: 0.15, // Low score but still a match
-          matchType: 'content',
-          snippets
-        };
+    const { score, breakdown } = blendSemantic(keyword?.scoreBreakdown ? { score: keyword.score, breakdown: keyword.scoreBreakdown } : null, similarity);
+    const exact = keyword?.matchType === 'exact';
+    const result: SearchResult = {
+      ...(keyword ?? entry),
+      score: exact ? 1.0 : score,
+      matchType: exact ? 'exact' : MATCH_TYPES[strongestSignal(breakdown)],
+      scoreBreakdown: breakdown
+    };
+    const passage = match && match.similarity >= MIN_SEMANTIC_SIMILARITY
+      ? entry.passages?.find(candidate => candidate.id === match.chunk.passageId)
+      : undefined;
+    if (passage) {
+      result.passage = passage;
+    }
+    return result;
+  }
+
+  /**
+   * Load the index saved by the last build so searches work right away.
+   * Returns false when there is no usable snapshot.
+   */
+  public async loadSnapshot(): Promise<boolean> {
+    if (!this.snapshotPath) {
+      return false;
+    }
+    const snapshot = await readSnapshot<BasicIndexEntry>(this.snapshotPath);
+    if (!snapshot) {
+      return false;
+    }
+
+    const contentIndex = new InvertedIndex();
+    const fieldIndex = new FieldIndex();
+    const memoryIndex = new Map<string, BasicIndexEntry>();
+    for (const entry of snapshot.entries) {
+      memoryIndex.set(entry.path, entry);
+      if (entry.content) {
+        // Snapshots written before languages were detected have none
+        entry.language ??= detectLanguage(entry.content);
+        contentIndex.add(entry.path, entry.content, entry.language);
       }
+      fieldIndex.add(entry);
     }
+    const filenames = snapshot.entries.map(entry => entry.filename);
+    const filenameIndex = snapshot.filenameIndex
+      ? Fuse.parseIndex<string>(snapshot.filenameIndex as Parameters<typeof Fuse.parseIndex>[0])
+      : undefined;
 
-    return null;
+    this.memoryIndex = memoryIndex;
+    this.contentIndex = contentIndex;
+    this.fieldIndex = fieldIndex;
+    this.filenameIndex = new Fuse(filenames, this.fuseOptions, filenameIndex);
+    this.indexedWith = snapshot.extractors;
+    this.vectorIndex = snapshot.vectors ? VectorIndex.fromJSON(snapshot.vectors) : null;
+    console.log(`Loaded index snapshot with ${memoryIndex.size} files from ${new Date(snapshot.savedAt).toISOString()}`);
+    this.emit('snapshot:loaded', { totalFiles: memoryIndex.size, savedAt: snapshot.savedAt });
+    return true;
   }
 
-  public async buildIndex(): Promise<void> {
-    if (this.isIndexing) {
-      console.log('Index build already in progress, skipping...');
+  private async saveSnapshot(extractors: string[]): Promise<void> {
+    if (!this.snapshotPath) {
       return;
     }
+    try {
+      await writeSnapshot<BasicIndexEntry>(this.snapshotPath, {
+        version: SNAPSHOT_VERSION,
+        savedAt: Date.now(),
+        extractors,
+        entries: Array.from(this.memoryIndex.values()),
+        filenameIndex: this.filenameIndex.getIndex().toJSON(),
+        vectors: this.vectorIndex?.toJSON()
+      });
+      console.log(`Saved index snapshot to ${this.snapshotPath}`);
+    } catch (error) {
+      // The index still works, the next start just has to rebuild it
+      console.error('Failed to save index snapshot:', error);
+    }
+  }
+
+  /**
+   * Whether a file is the same as when its entry was indexed: same size and
+   * mtime, or the same bytes if only the mtime moved. Members of an unchanged
+   * archive are unchanged as well.
+   */
+  private async isUnchanged(entry: BasicIndexEntry, unchangedPaths: Set<string>): Promise<boolean> {
+    if (entry.archive) {
+      return unchangedPaths.has(entry.archive);
+    }
+    const stats = await mcpService.statFile(entry.path);
+    if (stats.size !== entry.size) {
+      return false;
+    }
+    if (stats.lastModified === entry.lastModified) {
+      return true;
+    }
+    if (entry.hash && await mcpService.hashFile(entry.path) === entry.hash) {
+      entry.lastModified = stats.lastModified;
+      return true;
+    }
+    return false;
+  }
+
+  private createEntry(filePath: string, fileInfo: MCPFileContent): BasicIndexEntry {
+    const entry: BasicIndexEntry = {
+      path: filePath,
+      filename: path.basename(filePath),
+      lastModified: fileInfo.lastModified,
+      size: fileInfo.size,
+      root: mcpService.getRootForPath(filePath)?.name
+    };
+
+    const archive = getContainingArchive(filePath);
+    if (archive) {
+      entry.archive = archive;
+    }
+    if (fileInfo.hash) {
+      entry.hash = fileInfo.hash;
+    }
+    if (fileInfo.metadata && Object.keys(fileInfo.metadata).length > 0) {
+      entry.metadata = fileInfo.metadata;
+    }
+    // Only store content if it's not empty
+    if (fileInfo.content) {
+      entry.content = fileInfo.content;
+      if (fileInfo.segments && fileInfo.segments.length > 0) {
+        entry.segments = fileInfo.segments;
+      }
+      entry.passages = splitPassages(entry.content, entry.segments);
+      entry.language = detectLanguage(entry.content);
+    }
+    return entry;
+  }
 
+  /**
+   * Scan the roots and bring the index up to date. Files that did not change
+   * since they were indexed keep their entry; only new and changed files are
+   * extracted again. While a build runs, callers get its promise instead of
+   * starting another.
+   */
+  public buildIndex(): Promise<void> {
+    if (this.buildRun) {
+      console.log('Index build already in progress, waiting for it...');
+      return this.buildRun;
+    }
+    this.buildRun = this.runBuild().finally(() => {
+      this.buildRun = null;
+    });
+    return this.buildRun;
+  }
+
+  private async runBuild(): Promise<void> {
     this.isIndexing = true;
+    this.indexingAbort = new AbortController();
+    const { signal } = this.indexingAbort;
     console.log('Starting index build...');
     this.emit('indexing:start');
 
     try {
+      // Let live changes already being applied finish; later ones wait for the build
+      await this.changeQueue;
       console.log('Listing files...');
-      const files = await mcpService.listFiles();
+      const files = await mcpService.listFiles({
+        signal,
+        onProgress: progress => this.emit('scanning:progress', progress)
+      });
       console.log(`Found ${files.length} files`);
       let indexed = 0;
-      
-      // Reset indices
-      this.memoryIndex.clear();
+      let reused = 0;
+
+      // Entries extracted with a different set of extractors may be missing
+      // content a new extractor would find, so they are not reused
+      const extractors = await mcpService.getExtractorNames();
+      const canReuse = this.indexedWith !== null &&
+        this.indexedWith.length === extractors.length &&
+        this.indexedWith.every((name, index) => name === extractors[index]);
+      const previousIndex = canReuse ? this.memoryIndex : new Map<string, BasicIndexEntry>();
+      const previousMembers = new Map<string, string[]>();
+      for (const entry of previousIndex.values()) {
+        if (entry.archive) {
+          previousMembers.set(entry.archive, [...(previousMembers.get(entry.archive) || []), entry.path]);
+        }
+      }
+      const unchangedPaths = new Set<string>();
+      const extractedPaths = new Set<string>();
+
+      // Build into fresh indices so searches keep using the previous index
+      // until this build completes
+      const nextIndex = new Map<string, BasicIndexEntry>();
+      const nextContentIndex = new InvertedIndex();
       const filenames: string[] = [];
       
-      for (const filePath of files) {
-        console.log(`Indexing file ${indexed + 1}/${files.length}: ${filePath}`);
-        const fileInfo = await mcpService.readFile(filePath);
-        const filename = path.basename(filePath);
-        const entry: BasicIndexEntry = {
-          path: filePath,
-          filename,
-          lastModified: fileInfo.lastModified,
-          size: fileInfo.size
-        };
-
-        // Only store content if it's not empty
-        if (fileInfo.content) {
-          entry.content = fileInfo.content;
+      // Archive members are appended as they are found and indexed like
+      // regular files under their virtual paths
+      const queue = [...files];
+      for (let i = 0; i < queue.length; i++) {
+        const filePath = queue[i];
+        signal.throwIfAborted();
+
+        const previous = previousIndex.get(filePath);
+        // A file that cannot be checked is read again below, and skipped if that fails too
+        const unchanged = previous ? await this.isUnchanged(previous, unchangedPaths).catch(() => false) : false;
+        if (previous && unchanged) {
+          const entry: BasicIndexEntry = { ...previous, root: mcpService.getRootForPath(filePath)?.name };
+          unchangedPaths.add(filePath);
+          queue.push(...(previousMembers.get(filePath) || []));
+          if (entry.content) {
+            nextContentIndex.add(filePath, entry.content, entry.language);
+          }
+          nextIndex.set(filePath, entry);
+          filenames.push(entry.filename);
+          indexed++;
+          reused++;
+          continue;
+        }
+
+        console.log(`Indexing file ${indexed + 1}/${queue.length}: ${filePath}`);
+        let fileInfo: MCPFileContent;
+        try {
+          fileInfo = await mcpService.readFile(filePath);
+        } catch (error) {
+          // A file deleted or locked since the walk, or a corrupt archive
+          // member, should not fail the whole build
+          console.warn(`Skipping ${getContainingArchive(filePath) ? 'archive member' : 'file'} ${filePath}:`, error);
+          continue;
+        }
+        const entry = this.createEntry(filePath, fileInfo);
+        extractedPaths.add(filePath);
+        if (fileInfo.members) {
+          queue.push(...fileInfo.members.map(member => joinVirtualPath(filePath, member.path)));
+        }
+        if (entry.content) {
+          nextContentIndex.add(filePath, entry.content, entry.language);
         }
         
-        this.memoryIndex.set(filePath, entry);
-        filenames.push(filename);
+        nextIndex.set(filePath, entry);
+        filenames.push(entry.filename);
         indexed++;
         
         if (indexed % 100 === 0) {
-          console.log(`Indexed ${indexed}/${files.length} files`);
-          this.emit('indexing:progress', { total: files.length, current: indexed });
+          console.log(`Indexed ${indexed}/${queue.length} files`);
+          this.emit('indexing:progress', { total: queue.length, current: indexed });
         }
       }
 
+      const nextFieldIndex = new FieldIndex();
+      nextIndex.forEach(entry => nextFieldIndex.add(entry));
+      this.memoryIndex = nextIndex;
+      this.contentIndex = nextContentIndex;
+      this.fieldIndex = nextFieldIndex;
       // Build the Fuse index for filenames
       this.filenameIndex = new Fuse(filenames, this.fuseOptions);
+      this.indexedWith = extractors;
+      // Passages of new and changed files are embedded again, in the background
+      for (const docId of this.vectorIndex?.docIds() || []) {
+        if (!nextIndex.has(docId) || extractedPaths.has(docId)) {
+          this.vectorIndex!.remove(docId);
+        }
+      }
 
-      console.log(`Index build complete. Total files indexed: ${this.memoryIndex.size}`);
+      console.log(`Index build complete. Total files indexed: ${this.memoryIndex.size}, unchanged: ${reused}, extracted: ${indexed - reused}`);
       this.emit('indexing:complete', { totalFiles: this.memoryIndex.size });
+      await this.saveSnapshot(extractors);
+      void this.embedPendingFiles();
     } catch (error) {
+      if (signal.aborted) {
+        console.log('Index build cancelled, keeping the previous index');
+        this.emit('indexing:cancelled');
+        return;
+      }
       console.error('Error building index:', error);
       this.emit('indexing:error', error);
       throw error;
     } finally {
       this.isIndexing = false;
+      this.indexingAbort = null;
+      if (this.pendingChanges.size > 0) {
+        this.applyChanges([]).catch(error => console.error('Error applying file changes:', error));
+      }
     }
   }
 
-  public search(query: string, options: SearchOptions = {}): Omit<SearchResult, 'content'>[] {
-    const normalizedQuery = query.toLowerCase().trim();
-    if (!normalizedQuery || normalizedQuery.length < 2) {
-      return [];
+  /**
+   * Abort a running index build. The previous index stays in place.
+   */
+  public cancelIndexing(): boolean {
+    if (!this.indexingAbort) {
+      return false;
+    }
+    this.indexingAbort.abort();
+    return true;
+  }
+
+  /**
+   * Watch the roots and keep the index up to date as files are added,
+   * changed, renamed or removed.
+   */
+  public startWatching(): void {
+    if (this.watcher) {
+      return;
+    }
+    this.watcher = mcpService.watchRoots(paths => {
+      this.applyChanges(paths).catch(error => console.error('Error applying file changes:', error));
+    });
+  }
+
+  public stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Stop watching, cancel a running build and wait for it to stop, then write
+   * a snapshot that was scheduled but not yet saved, so live changes and
+   * vectors survive a restart. The index can be loaded and watched again
+   * afterwards.
+   */
+  public async close(): Promise<void> {
+    this.stopWatching();
+    this.cancelIndexing();
+    await this.buildRun?.catch(() => undefined);
+    await this.changeQueue.catch(() => undefined);
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+      if (this.indexedWith) {
+        await this.saveSnapshot(this.indexedWith);
+      }
+    }
+  }
+
+  /**
+   * Update the entries for changed paths, which may be files, directories or
+   * paths that no longer exist. Changes are applied one batch at a time;
+   * those arriving during a full build are held until it completes so the
+   * build does not swap them out again.
+   */
+  public applyChanges(paths: string[]): Promise<void> {
+    paths.forEach(changedPath => this.pendingChanges.add(changedPath));
+    if (this.isIndexing) {
+      return Promise.resolve();
+    }
+    this.changeQueue = this.changeQueue.then(() => this.flushChanges());
+    return this.changeQueue;
+  }
+
+  private async flushChanges(): Promise<void> {
+    if (this.isIndexing || this.pendingChanges.size === 0) {
+      return;
+    }
+    const paths = Array.from(this.pendingChanges);
+    this.pendingChanges.clear();
+    console.log(`Applying ${paths.length} file changes`);
+
+    // Entries whose file is gone, kept aside until the end so a file showing
+    // up elsewhere in the same batch can be recognised as a rename
+    const removed = new Map<string, BasicIndexEntry>();
+    const candidates = new Set<string>();
+    for (const changedPath of paths) {
+      let isDirectory: boolean;
+      try {
+        ({ isDirectory } = await mcpService.statFile(changedPath));
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+          console.warn(`Could not check ${changedPath}:`, error);
+          continue;
+        }
+        this.findEntriesAt(changedPath).forEach(entry => removed.set(entry.path, entry));
+        continue;
+      }
+
+      if (isDirectory) {
+        const files = new Set(await mcpService.listFilesUnder(changedPath));
+        files.forEach(filePath => candidates.add(filePath));
+        this.findEntriesAt(changedPath)
+          .filter(entry => !files.has(entry.path))
+          .forEach(entry => removed.set(entry.path, entry));
+      } else if (await mcpService.isIndexable(changedPath)) {
+        candidates.add(changedPath);
+      } else {
+        this.findEntriesAt(changedPath).forEach(entry => removed.set(entry.path, entry));
+      }
+    }
+
+    let changes = 0;
+    for (const filePath of candidates) {
+      try {
+        const existing = this.memoryIndex.get(filePath);
+        if (existing) {
+          if (await this.isUnchanged(existing, new Set())) {
+            continue;
+          }
+          await this.indexChangedFile(filePath);
+          this.emit('index:file-updated', { path: filePath });
+        } else {
+          const source = await this.findRenameSource(filePath, removed);
+          if (source) {
+            removed.delete(source.path);
+            this.moveEntry(source, filePath);
+            this.emit('index:file-renamed', { from: source.path, to: filePath });
+          } else {
+            await this.indexChangedFile(filePath);
+            this.emit('index:file-added', { path: filePath });
+          }
+        }
+        changes++;
+      } catch (error) {
+        // Most likely removed or still being written; its next change retries it
+        console.warn(`Could not index ${filePath}:`, error);
+      }
+    }
+
+    for (const entry of removed.values()) {
+      this.removeEntry(entry.path);
+      this.emit('index:file-removed', { path: entry.path });
+      changes++;
+    }
+
+    if (changes > 0) {
+      console.log(`Applied ${changes} file changes, index now holds ${this.memoryIndex.size} files`);
+      this.scheduleSnapshot();
+      void this.embedPendingFiles();
+    }
+  }
+
+  // Entries for a file on disk, or for every file below a directory
+  private findEntriesAt(filePath: string): BasicIndexEntry[] {
+    const directoryPrefix = filePath.endsWith(path.sep) ? filePath : filePath + path.sep;
+    return Array.from(this.memoryIndex.values()).filter(entry =>
+      !entry.archive && (entry.path === filePath || entry.path.startsWith(directoryPrefix))
+    );
+  }
+
+  private findArchiveMembers(archivePath: string): BasicIndexEntry[] {
+    const prefix = archivePath + ARCHIVE_SEPARATOR;
+    return Array.from(this.memoryIndex.values()).filter(entry => entry.path.startsWith(prefix));
+  }
+
+  /**
+   * A file moved within the roots keeps its size and mtime, so a removed
+   * entry matching both (and the extension) is taken to be the same file.
+   */
+  private async findRenameSource(filePath: string, removed: Map<string, BasicIndexEntry>): Promise<BasicIndexEntry | undefined> {
+    if (removed.size === 0) {
+      return undefined;
+    }
+    const stats = await mcpService.statFile(filePath);
+    const ext = path.extname(filePath).toLowerCase();
+    return Array.from(removed.values()).find(entry =>
+      entry.size === stats.size &&
+      entry.lastModified === stats.lastModified &&
+      path.extname(entry.path).toLowerCase() === ext
+    );
+  }
+
+  // Extract a new or changed file, replacing its entry and those of its archive members
+  private async indexChangedFile(filePath: string): Promise<void> {
+    const fileInfo = await mcpService.readFile(filePath);
+    this.removeEntry(filePath);
+    this.insertEntry(this.createEntry(filePath, fileInfo));
+
+    const queue = (fileInfo.members || []).map(member => joinVirtualPath(filePath, member.path));
+    for (let i = 0; i < queue.length; i++) {
+      try {
+        const memberInfo = await mcpService.readFile(queue[i]);
+        this.insertEntry(this.createEntry(queue[i], memberInfo));
+        queue.push(...(memberInfo.members || []).map(member => joinVirtualPath(queue[i], member.path)));
+      } catch (error) {
+        console.warn(`Skipping archive member ${queue[i]}:`, error);
+      }
+    }
+  }
+
+  // Re-key an entry and its archive members under a new path without extracting them again
+  private moveEntry(entry: BasicIndexEntry, newPath: string): void {
+    const oldPath = entry.path;
+    for (const item of [entry, ...this.findArchiveMembers(oldPath)]) {
+      this.deleteEntry(item);
+      const moved: BasicIndexEntry = {
+        ...item,
+        path: newPath + item.path.slice(oldPath.length),
+        filename: item === entry ? path.basename(newPath) : item.filename,
+        root: mcpService.getRootForPath(newPath)?.name
+      };
+      if (item.archive) {
+        moved.archive = newPath + item.archive.slice(oldPath.length);
+      }
+      this.insertEntry(moved);
+    }
+  }
+
+  // Remove an entry along with the members of an archive
+  private removeEntry(filePath: string): void {
+    const entry = this.memoryIndex.get(filePath);
+    if (entry) {
+      this.deleteEntry(entry);
+    }
+    this.findArchiveMembers(filePath).forEach(member => this.deleteEntry(member));
+  }
+
+  private insertEntry(entry: BasicIndexEntry): void {
+    this.memoryIndex.set(entry.path, entry);
+    if (entry.content) {
+      this.contentIndex.add(entry.path, entry.content, entry.language);
+    }
+    this.fieldIndex.add(entry);
+    this.filenameIndex.add(entry.filename);
+  }
+
+  // Also used when moving an entry: its passages include the old name, so it is embedded again
+  private deleteEntry(entry: BasicIndexEntry): void {
+    this.memoryIndex.delete(entry.path);
+    this.contentIndex.remove(entry.path);
+    this.fieldIndex.remove(entry);
+    this.vectorIndex?.remove(entry.path);
+    // Several files can share a name, so only one occurrence is dropped
+    let found = false;
+    this.filenameIndex.remove(filename => {
+      if (!found && filename === entry.filename) {
+        found = true;
+        return true;
+      }
+      return false;
+    });
+  }
+
+  private getEmbedder(): Promise<Embedder | null> {
+    if (!this.embedder) {
+      this.embedder = this.loadEmbedder ? this.loadEmbedder() : Promise.resolve(null);
+    }
+    return this.embedder;
+  }
+
+  /**
+   * Embed the passages of indexed files that have no vectors yet. Runs after
+   * every build and batch of live changes; runs are queued so only one
+   * uses the model at a time.
+   */
+  public embedPendingFiles(): Promise<void> {
+    this.embeddingQueue = this.embeddingQueue
+      .then(() => this.embedPending())
+      .catch(error => {
+        console.error('Error embedding files:', error);
+        this.emit('embedding:error', error);
+      });
+    return this.embeddingQueue;
+  }
+
+  private async embedPending(): Promise<void> {
+    const embedder = await this.getEmbedder();
+    if (!embedder) {
+      return;
+    }
+    // Vectors of another model cannot be compared with the query's
+    if (this.vectorIndex?.model !== embedder.model) {
+      this.vectorIndex = new VectorIndex(embedder.model);
+    }
+    const vectorIndex = this.vectorIndex;
+    const pending = Array.from(this.memoryIndex.values()).filter(entry => !vectorIndex.has(entry.path));
+    if (pending.length === 0) {
+      return;
+    }
+
+    console.log(`Embedding passages of ${pending.length} files for semantic search...`);
+    let embedded = 0;
+    for (const entry of pending) {
+      const chunks = this.passagesOf(entry);
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        vectors.push(...await embedder.embed(chunks.slice(i, i + EMBEDDING_BATCH_SIZE).map(chunk => chunk.text)));
+      }
+      // The file may have changed or gone away while its passages were embedded
+      if (this.memoryIndex.get(entry.path) !== entry || this.vectorIndex !== vectorIndex) {
+        continue;
+      }
+      vectorIndex.set(entry.path, chunks.map((chunk, index) => chunk.passageId ? { passageId: chunk.passageId, vector: vectors[index] } : { vector: vectors[index] }));
+      embedded++;
+      if (embedded % 100 === 0) {
+        console.log(`Embedded ${embedded}/${pending.length} files`);
+        this.emit('embedding:progress', { total: pending.length, current: embedded });
+      }
+    }
+
+    console.log(`Embedding complete. Files with passage vectors: ${vectorIndex.size}`);
+    this.emit('embedding:complete', { embeddedFiles: vectorIndex.size });
+    this.scheduleSnapshot();
+  }
+
+  // The texts embedded for a file: its name and title, then its first passages
+  private passagesOf(entry: BasicIndexEntry): { text: string; passageId?: string }[] {
+    const name = path.parse(entry.filename).name.replace(/[_\-.]+/g, ' ');
+    const heading = [name, entry.metadata?.title].filter(Boolean).join(' - ');
+    return [
+      { text: heading },
+      ...(entry.passages || []).slice(0, MAX_EMBEDDED_PASSAGES).map(passage => ({ text: entry.content!.substring(passage.start, passage.end), passageId: passage.id }))
+    ];
+  }
+
+  private scheduleSnapshot(): void {
+    if (!this.snapshotPath || this.snapshotTimer) {
+      return;
+    }
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      if (this.indexedWith) {
+        void this.saveSnapshot(this.indexedWith);
+      }
+    }, SNAPSHOT_DELAY_MS);
+    // A pending save must not keep the process alive
+    this.snapshotTimer.unref();
+  }
+
+  /**
+   * Search the index. The query syntax is described in query.ts: all words
+   * are required, with OR, "phrases", -exclusions and field filters such as
+   * ext:pdf or modified:>2024-01-01. Throws a QuerySyntaxError for an
+   * unreadable filter.
+   */
+  public search(query: string, options: SearchOptions = {}): PublicSearchResult[] {
+    return this.searchPage(query, options).results;
+  }
+
+  /**
+   * Search and return one page of results with the total number of matches.
+   * Results are ordered by score, then date, then path, so pages do not
+   * overlap while the index is unchanged.
+   */
+  public searchPage(query: string, options: SearchOptions = {}): SearchPage {
+    return this.runSearch(query, options, null);
+  }
+
+  /**
+   * Search by meaning as well as by keywords: the query is embedded and
+   * compared with every file's passages, so a question finds documents that
+   * answer it in other words. Runs on the local model, fully offline. Falls
+   * back to a keyword search while no model or passage vectors are available.
+   */
+  public async semanticSearchPage(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchPage> {
+    // Reject unreadable filters before embedding anything
+    const semantic = await this.semanticContext(parseQuery(query), options.mode ?? 'hybrid');
+    return { ...this.runSearch(query, options, semantic), mode: semantic?.mode ?? 'keyword' };
+  }
+
+  /**
+   * Find the passages that best match a query across all documents, rather
+   * than the best documents. Passages of the top matching documents are
+   * scored on the query words they contain, or in hybrid and semantic mode
+   * also on their similarity in meaning, and weighted by their document's
+   * score. Each carries its text, offsets and page or section anchor.
+   */
+  public async searchPassages(query: string, options: PassageSearchOptions = {}): Promise<PassagePage> {
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+    const parsed = parseQuery(query);
+    if (parsed.text.length < 2) {
+      return { passages: [], total: 0, mode: 'keyword' };
+    }
+    const semantic = await this.semanticContext(parsed, options.mode ?? 'keyword');
+    const mode = semantic?.mode ?? 'keyword';
+    const documents = this.findMatches(query, options, semantic).results.slice(0, PASSAGE_CANDIDATE_DOCUMENTS);
+
+    const passages: PassageResult[] = [];
+    for (const document of documents) {
+      if (!document.content || !document.passages) {
+        continue;
+      }
+      const similarities = new Map<string, number>();
+      if (semantic && this.vectorIndex) {
+        for (const { similarity, chunk } of this.vectorIndex.similarities(document.path, semantic.vector)) {
+          if (chunk.passageId) {
+            similarities.set(chunk.passageId, similarity);
+          }
+        }
+      }
+      const required = withoutStopWordTerms(parsed, document.language ?? DEFAULT_LANGUAGE);
+      for (const passage of document.passages) {
+        const text = document.content.substring(passage.start, passage.end);
+        const keyword = mode === 'semantic' ? 0 : passageCoverage(text, required, document.language);
+        const meaning = semanticSignal(similarities.get(passage.id) ?? 0);
+        const relevance = mode === 'keyword' ? keyword
+          : mode === 'semantic' ? meaning
+          : keyword * (1 - SEMANTIC_WEIGHT) + meaning * SEMANTIC_WEIGHT;
+        if (relevance <= 0) {
+          continue;
+        }
+        passages.push({
+          path: document.path,
+          filename: document.filename,
+          root: document.root,
+          passage,
+          text,
+          score: PASSAGE_WEIGHT * relevance + (1 - PASSAGE_WEIGHT) * document.score,
+          documentScore: document.score
+        });
+      }
+    }
+
+    // Best first, then in document order
+    passages.sort((a, b) => b.score - a.score || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0) || a.passage.start - b.passage.start);
+    console.log(`Found ${passages.length} matching passages in ${documents.length} documents`);
+    return { passages: passages.slice(0, limit), total: passages.length, mode };
+  }
+
+  // Embed the query for a hybrid or semantic search, or give null for a
+  // keyword search or while no model or passage vectors are available
+  private async semanticContext(parsed: ParsedQuery, mode: SearchMode): Promise<SemanticContext | null> {
+    if (mode === 'keyword' || parsed.text.length < 2) {
+      return null;
+    }
+    const embedder = await this.getEmbedder();
+    const vectorIndex = this.vectorIndex;
+    if (!embedder || vectorIndex?.model !== embedder.model || vectorIndex.size === 0) {
+      return null;
+    }
+    const [vector] = await embedder.embed([parsed.text]);
+    return { mode, vector, matches: vectorIndex.search(vector) };
+  }
+
+  private runSearch(query: string, options: SearchOptions, semantic: SemanticContext | null): SearchPage {
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+    const offset = Math.max(0, options.offset ?? 0);
+    const { results, query: normalizedQuery, now } = this.findMatches(query, options, semantic);
+
+    const pageResults = results
+      .slice(offset, offset + limit)
+      .map(result => this.withSnippets(result, normalizedQuery, options));
+    console.log(`Found ${results.length} matches, showing ${offset + 1}-${offset + pageResults.length}`);
+
+    return {
+      results: pageResults.map(toPublicEntry),
+      total: results.length,
+      offset,
+      limit,
+      hasMore: offset + pageResults.length < results.length,
+      facets: this.computeFacets(results, now)
+    };
+  }
+
+  /**
+   * Every file matching a query, best first: by score, then by date, then by
+   * path so the order is stable across pages.
+   */
+  private findMatches(query: string, options: SearchOptions, semantic: SemanticContext | null): { results: SearchResult[]; query: string; now: number } {
+    const parsed = parseQuery(query);
+    // Field filters in the query (author:jane) add to the ones passed in options
+    const metadataFilter: MetadataFilter = { ...options.metadata, ...parsed.metadata };
+    const filterByMetadata = hasMetadataFilter(metadataFilter);
+    const filterByFile = hasQueryFilters(parsed);
+    const normalizedQuery = parsed.text;
+    const now = Date.now();
+    if (!filterByMetadata && !filterByFile && normalizedQuery.length < 2) {
+      return { results: [], query: normalizedQuery, now };
     }
 
     console.log(`Searching for: "${normalizedQuery}" with options:`, options);
     console.log(`Current index size: ${this.memoryIndex.size} files`);
 
+    // Filename and content matches are looked up once per query rather than
+    // once per file
+    const context: ScoringContext = { fuzzyScores: new Map(), contentMatches: new Map(), termMatches: new Map(), now };
+    if (normalizedQuery.length >= 2) {
+      for (const result of this.filenameIndex.search(normalizedQuery)) {
+        const previous = context.fuzzyScores.get(result.item);
+        context.fuzzyScores.set(result.item, Math.min(previous ?? 1, result.score ?? 0));
+      }
+      context.contentMatches = this.contentIndex.search(normalizedQuery, { prefix: true });
+    }
+    // The last word is matched as a prefix while the user is still typing it
+    const requiredTerms = parsed.required.flat();
+    const lastTerm = requiredTerms[requiredTerms.length - 1];
+    for (const term of [...requiredTerms, ...parsed.excluded]) {
+      context.termMatches.set(term, this.contentIndex.search(term.text, { prefix: term === lastTerm && !term.phrase }));
+    }
+
     const results: SearchResult[] = [];
-    for (const entry of this.memoryIndex.values()) {
+    for (const entry of this.findCandidates(parsed, context, semantic)) {
       // Apply file type filter if specified
       if (options.fileTypes && options.fileTypes.length > 0) {
         const fileExt = path.extname(entry.filename).toLowerCase().slice(1);
@@ -370,41 +1223,177 @@ export class SearchIndex extends EventEmitter {
         }
       }
 
-      const result = this.calculateScore(entry, normalizedQuery, {
-        snippetContextSize: options.snippetContextSize || 60,
-        maxSnippets: options.maxSnippets || 3
-      });
-      
+      if (filterByFile && !matchesQueryFilters(entry, parsed)) {
+        continue;
+      }
+      if (filterByMetadata && !matchesMetadataFilter(entry.metadata, metadataFilter)) {
+        continue;
+      }
+      if (parsed.excluded.some(term => this.findTermMatch(entry, term, context))) {
+        continue;
+      }
+
+      // A query of only field filters returns every file that passes them
+      if (normalizedQuery.length < 2) {
+        results.push({ ...entry, score: 0.45, matchType: filterByMetadata ? 'metadata' : 'filter' });
+        continue;
+      }
+
+      const result = semantic
+        ? this.calculateHybridScore(entry, parsed, context, semantic)
+        : this.calculateScore(entry, parsed, context);
       if (result) {
         results.push(result);
       }
     }
 
-    // Sort by score (highest first) and then by date
-    const sortedResults = results
-      .sort((a, b) => {
-        if (a.score !== b.score) {
-          return b.score - a.score;
-        }
+    results.sort((a, b) => {
+      if (a.score !== b.score) {
+        return b.score - a.score;
+      }
+      if (a.lastModified !== b.lastModified) {
         return b.lastModified - a.lastModified;
-      })
-      .slice(0, 10); // Limit to top 10 results
+      }
+      return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+    });
 
-    console.log(`Found ${results.length} matches, showing top ${sortedResults.length}`);
     if (options.fileTypes) {
       console.log(`Filtered by file types: ${options.fileTypes.join(', ')}`);
     }
+    if (filterByMetadata) {
+      console.log('Filtered by metadata:', metadataFilter);
+    }
+    return { results, query: normalizedQuery, now };
+  }
+
+  /**
+   * The files a query can match: those holding one of its words in their
+   * content, path or metadata, those whose name is close to it and those
+   * close to it in meaning. Only a query without words, which any file
+   * passing its filters matches, looks at every file.
+   */
+  private findCandidates(parsed: ParsedQuery, context: ScoringContext, semantic: SemanticContext | null): Iterable<BasicIndexEntry> {
+    if (parsed.text.length < 2 || parsed.required.length === 0) {
+      return this.memoryIndex.values();
+    }
+    const paths = new Set(context.contentMatches.keys());
+    // Every file has to match the words that are no stop word in any language
+    for (const term of withoutStopWordTerms(parsed).required.flat()) {
+      context.termMatches.get(term)?.forEach((match, filePath) => paths.add(filePath));
+      for (const filePath of this.fieldIndex.search(term.text)) {
+        paths.add(filePath);
+      }
+    }
+    for (const filename of context.fuzzyScores.keys()) {
+      for (const filePath of this.fieldIndex.pathsNamed(filename)) {
+        paths.add(filePath);
+      }
+    }
+    semantic?.matches.forEach((match, filePath) => paths.add(filePath));
 
-    // Remove content from results before sending
-    return sortedResults.map(({ content, ...rest }) => rest);
+    const candidates: BasicIndexEntry[] = [];
+    for (const filePath of paths) {
+      const entry = this.memoryIndex.get(filePath);
+      if (entry) {
+        candidates.push(entry);
+      }
+    }
+    return candidates;
+  }
+
+  private computeFacets(results: SearchResult[], now?: number): SearchFacets {
+    return computeFacets(results, { rootPathFor: filePath => mcpService.getRootForPath(filePath)?.path, now });
+  }
+
+  private findTermMatch(entry: BasicIndexEntry, term: QueryTerm, context: ScoringContext): TermMatch | null {
+    if (containsTerm(entry.filename, term.text)) {
+      return 'name';
+    }
+    if (containsTerm(entry.path, term.text)) {
+      return 'path';
+    }
+    if (findMetadataMatches(entry.metadata, term.text).length > 0) {
+      return 'metadata';
+    }
+    return this.matchesContent(entry, term, context) ? 'content' : null;
   }
 
-  public getStats(): { totalFiles: number; isIndexing: boolean } {
+  private matchesContent(entry: BasicIndexEntry, term: QueryTerm, context: ScoringContext): boolean {
+    // Words of a phrase, or of a term such as q3-report, must appear together
+    const match = context.termMatches.get(term)?.get(entry.path);
+    return !!match && match.matchedTerms === match.termCount && (match.termCount === 1 || match.phrase);
+  }
+
+  // Snippets are only cut for the results that are returned
+  private withSnippets(result: SearchResult, query: string, options: SearchOptions): SearchResult {
+    if (!result.content) {
+      return result;
+    }
+    // Results found by meaning alone show the passage that matched
+    if (!result.scoreBreakdown?.content) {
+      return result.passage
+        ? { ...result, snippets: [this.passageSnippet(result.content, result.passage, options.snippetContextSize || 60, result.segments)] }
+        : result;
+    }
+    // Any result matching on its content gets snippets, whatever ranked it
+    const snippets = this.extractSnippets(
+      result.content,
+      query,
+      options.maxSnippets || 3,
+      options.snippetContextSize || 60,
+      result.segments,
+      result.passages,
+      result.language
+    );
+    return snippets.length > 0 ? { ...result, snippets } : result;
+  }
+
+  private passageSnippet(content: string, passage: Passage, contextSize: number, segments?: ContentSegment[]): SnippetMatch {
+    let text = content.substring(passage.start, passage.end);
+    // Passages run to 200 words; long ones are cut at a word boundary
+    if (text.length > contextSize * 3) {
+      const cut = text.lastIndexOf(' ', contextSize * 3);
+      text = text.substring(0, cut > 0 ? cut : contextSize * 3) + '...';
+    }
+    if (passage.start > 0) {
+      text = '...' + text;
+    }
+    const location = locateOffset(segments, passage.start);
+    const snippet: SnippetMatch = { text, score: 1, position: passage.start, passageId: passage.id };
+    return location ? { ...snippet, location } : snippet;
+  }
+
+  public getStats(): { totalFiles: number; isIndexing: boolean; embeddedFiles: number; embeddingModel: string | null } {
     return {
       totalFiles: this.memoryIndex.size,
-      isIndexing: this.isIndexing
+      isIndexing: this.isIndexing,
+      embeddedFiles: this.vectorIndex?.size ?? 0,
+      embeddingModel: this.vectorIndex?.model ?? null
     };
   }
+
+  /**
+   * Every indexed file, including archive members, without its content.
+   */
+  public listDocuments(): IndexedDocument[] {
+    return Array.from(this.memoryIndex.values(), toPublicEntry);
+  }
+
+  public hasDocument(filePath: string): boolean {
+    return this.memoryIndex.has(filePath);
+  }
+
+  /**
+   * An indexed file with the text extracted from it, or undefined when the
+   * path is not in the index.
+   */
+  public getDocument(filePath: string): (IndexedDocument & { content: string }) | undefined {
+    const entry = this.memoryIndex.get(filePath);
+    if (!entry) {
+      return undefined;
+    }
+    return { ...toPublicEntry(entry), content: entry.content ?? '' };
+  }
 }
 
-export const searchIndex = new SearchIndex(); 
\ No newline at end of file
+export const searchIndex = new SearchIndex({ snapshotPath: getSnapshotPath(), loadEmbedder: () => loadEmbedder() }); 
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { analyze, analyzeQuery, DEFAULT_LANGUAGE, queryTokensFor, SUPPORTED_LANGUAGES } from './analysis.js';
+import type { Language } from './analysis.js';
+
+interface Posting {
+  tf: number;          // Occurrences of the term in the document
+  positions: number[]; // Token positions, ascending
+}
+
+export interface ContentMatch {
+  score: number;        // BM25 score, summed over the query terms
+  matchedTerms: number; // Query terms found in the document
+  termCount: number;    // Terms in the query, less the stop words of the document's language
+  phrase: boolean;      // The query terms occur next to each other, in order
+}
+
+export interface ContentSearchOptions {
+  prefix?: boolean; // Let the last query term match longer terms, for search-as-you-type
+}
+
+// Usual BM25 parameters: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+// Caps the terms a prefix expands to so a one-letter prefix stays cheap;
+// the terms found in the most documents are kept
+const MAX_PREFIX_EXPANSIONS = 50;
+
+/**
+ * Term -> document postings with frequencies and positions, scored with
+ * BM25. Searching only touches the postings of the query terms, so its cost
+ * follows the number of matching documents rather than the corpus size.
+ */
+export class InvertedIndex {
+  private postings = new Map<string, Map<string, Posting>>();
+  private documentTerms = new Map<string, string[]>();
+  private documentLengths = new Map<string, number>();
+  private documentLanguages = new Map<string, Language>();
+  private totalLength = 0;
+  private sortedTerms: string[] | null = null; // Rebuilt on the next prefix search after the vocabulary changes
+
+  public get size(): number {
+    return this.documentLengths.size;
+  }
+
+  public has(docId: string): boolean {
+    return this.documentLengths.has(docId);
+  }
+
+  /**
+   * Index a document's text, analysed for its language: stemmed, without
+   * accents and without stop words.
+   */
+  public add(docId: string, text: string, language: Language = DEFAULT_LANGUAGE): void {
+    if (this.has(docId)) {
+      this.remove(docId);
+    }
+
+    const tokens = analyze(text, language);
+    const documentPostings = new Map<string, Posting>();
+    for (const token of tokens) {
+      const posting = documentPostings.get(token.term);
+      if (posting) {
+        posting.tf++;
+        posting.positions.push(token.position);
+      } else {
+        documentPostings.set(token.term, { tf: 1, positions: [token.position] });
+      }
+    }
+
+    for (const [term, posting] of documentPostings) {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        this.postings.set(term, termPostings);
+        this.sortedTerms = null;
+      }
+      termPostings.set(docId, posting);
+    }
+    this.documentTerms.set(docId, Array.from(documentPostings.keys()));
+    this.documentLengths.set(docId, tokens.length);
+    this.documentLanguages.set(docId, language);
+    this.totalLength += tokens.length;
+  }
+
+  public remove(docId: string): boolean {
+    const terms = this.documentTerms.get(docId);
+    if (!terms) {
+      return false;
+    }
+    for (const term of terms) {
+      const termPostings = this.postings.get(term);
+      termPostings?.delete(docId);
+      if (termPostings && termPostings.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.totalLength -= this.documentLengths.get(docId) || 0;
+    this.documentTerms.delete(docId);
+    this.documentLengths.delete(docId);
+    this.documentLanguages.delete(docId);
+    return true;
+  }
+
+  private expandTerm(term: string, prefix: boolean): string[] {
+    const expansions = this.postings.has(term) ? [term] : [];
+    if (!prefix) {
+      return expansions;
+    }
+    // Terms starting with the prefix sit next to each other in sorted order
+    const sortedTerms = this.sortedTerms ??= Array.from(this.postings.keys()).sort();
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (sortedTerms[middle] < term) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    const candidates: string[] = [];
+    for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(term); i++) {
+      if (sortedTerms[i] !== term) {
+        candidates.push(sortedTerms[i]);
+      }
+    }
+    if (candidates.length > MAX_PREFIX_EXPANSIONS - expansions.length) {
+      candidates.sort((a, b) => this.postings.get(b)!.size - this.postings.get(a)!.size);
+      candidates.length = MAX_PREFIX_EXPANSIONS - expansions.length;
+    }
+    return expansions.concat(candidates);
+  }
+
+  private idf(documentFrequency: number): number {
+    const documents = this.size;
+    return Math.log(1 + (documents - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * Score the documents containing any query term. Query words match the
+   * terms they are indexed under in any supported language, so "invoices"
+   * finds "invoice" and "cafe" finds "café". A word that is a stop word in a
+   * document's language is left out of its match, as it is not indexed there.
+   */
+  public search(query: string, options: ContentSearchOptions = {}): Map<string, ContentMatch> {
+    const queryTokens = analyzeQuery(query);
+    const matches = new Map<string, ContentMatch>();
+    if (queryTokens.length === 0 || this.size === 0) {
+      return matches;
+    }
+
+    const averageLength = this.totalLength / this.size || 1;
+    const tokensByLanguage = new Map(SUPPORTED_LANGUAGES.map(language => [language, queryTokensFor(queryTokens, language)]));
+    const tokensOf = (docId: string) => tokensByLanguage.get(this.documentLanguages.get(docId) ?? DEFAULT_LANGUAGE)!;
+    // Positions of each query term per document, for the phrase check
+    const termPositions = queryTokens.map(() => new Map<string, number[]>());
+
+    queryTokens.forEach((queryToken, index) => {
+      const isLast = index === queryTokens.length - 1;
+      const terms = new Set(queryToken.variants.flatMap(variant => this.expandTerm(variant, !!options.prefix && isLast)));
+      const matchedDocs = new Set<string>();
+      for (const term of terms) {
+        const termPostings = this.postings.get(term)!;
+        const idf = this.idf(termPostings.size);
+        for (const [docId, posting] of termPostings) {
+          const documentTokens = tokensOf(docId);
+          if (!documentTokens.includes(queryToken)) {
+            continue;
+          }
+          const length = this.documentLengths.get(docId) || 0;
+          const termScore = idf * (posting.tf * (K1 + 1)) / (posting.tf + K1 * (1 - B + B * length / averageLength));
+
+          let match = matches.get(docId);
+          if (!match) {
+            match = { score: 0, matchedTerms: 0, termCount: documentTokens.length, phrase: false };
+            matches.set(docId, match);
+          }
+          match.score += termScore;
+          if (!matchedDocs.has(docId)) {
+            matchedDocs.add(docId);
+            match.matchedTerms++;
+          }
+          const positions = termPositions[index].get(docId) || [];
+          termPositions[index].set(docId, positions.concat(posting.positions));
+        }
+      }
+    });
+
+    // Stop words left out of a document's match still keep the query's words apart
+    for (const [docId, match] of matches) {
+      if (match.matchedTerms === match.termCount) {
+        const documentTokens = tokensOf(docId);
+        const gaps = documentTokens.map(token => token.position - documentTokens[0].position);
+        match.phrase = this.hasPhrase(documentTokens.map(token => termPositions[queryTokens.indexOf(token)].get(docId) || []), gaps);
+      }
+    }
+    return matches;
+  }
+
+  private hasPhrase(positionsPerTerm: number[][], gaps: number[]): boolean {
+    if (positionsPerTerm.length === 1) {
+      return positionsPerTerm[0].length > 0;
+    }
+    const following = positionsPerTerm.slice(1).map(positions => new Set(positions));
+    return positionsPerTerm[0].some(start => following.every((positions, k) => positions.has(start + gaps[k + 1])));
+  }
+}
@@ -0,0 +1,69 @@
+import type { DocumentMetadata } from '../extractors/index.js';
+import { containsTerm } from './analysis.js';
+
+export const METADATA_FILTER_FIELDS = ['title', 'author', 'subject', 'keywords', 'from', 'to', 'date'] as const;
+
+export type MetadataFilterField = typeof METADATA_FILTER_FIELDS[number];
+
+// Filters on document metadata, e.g. { author: 'jane' }, ignoring case,
+// accents and word endings.
+// `date` matches the start of the ISO date the email was sent, the document
+// created or the photo taken, so 2024-03 finds anything from March 2024.
+export type MetadataFilter = Partial<Record<MetadataFilterField, string>>;
+
+// Fields the free-text query is matched against
+const TEXT_FIELDS: MetadataFilterField[] = ['title', 'author', 'subject', 'keywords', 'from', 'to'];
+
+function fieldValues(metadata: DocumentMetadata, field: MetadataFilterField): string[] {
+  if (field === 'date') {
+    const time = metadata.sentAt ?? metadata.createdAt ?? metadata.takenAt;
+    return time !== undefined ? [new Date(time).toISOString().slice(0, 10)] : [];
+  }
+  const value = metadata[field];
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value ? [value] : [];
+}
+
+// The text of the fields the free-text query is matched against, one value per line
+export function metadataText(metadata: DocumentMetadata | undefined): string {
+  return metadata ? TEXT_FIELDS.flatMap(field => fieldValues(metadata, field)).join('\n') : '';
+}
+
+export function hasMetadataFilter(filter: MetadataFilter | undefined): filter is MetadataFilter {
+  return !!filter && METADATA_FILTER_FIELDS.some(field => !!filter[field]);
+}
+
+/**
+ * Whether metadata satisfies every field of a filter. Files without metadata
+ * never match a non-empty filter.
+ */
+export function matchesMetadataFilter(metadata: DocumentMetadata | undefined, filter: MetadataFilter): boolean {
+  return METADATA_FILTER_FIELDS.every(field => {
+    const expected = filter[field]?.toLowerCase();
+    if (!expected) {
+      return true;
+    }
+    if (!metadata) {
+      return false;
+    }
+    const values = fieldValues(metadata, field);
+    return field === 'date'
+      ? values.some(value => value.startsWith(expected))
+      : values.some(value => containsTerm(value, expected));
+  });
+}
+
+/**
+ * Metadata fields whose text contains the (lower-cased) query, in any form
+ * of its words.
+ */
+export function findMetadataMatches(metadata: DocumentMetadata | undefined, normalizedQuery: string): MetadataFilterField[] {
+  if (!metadata) {
+    return [];
+  }
+  return TEXT_FIELDS.filter(field =>
+    fieldValues(metadata, field).some(value => containsTerm(value, normalizedQuery))
+  );
+}
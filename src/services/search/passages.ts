@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { findSegment } from '../extractors/segments.js';
+import type { ContentSegment } from '../extractors/index.js';
+import { chunkText } from './chunker.js';
+import { findWords } from './analysis.js';
+import type { Language } from './analysis.js';
+import type { ParsedQuery } from './query.js';
+
+// Where a passage starts in the original document, as far as it is known
+export interface PassageAnchor {
+  page?: number;       // 1-based PDF page
+  sheet?: string;
+  row?: number;        // 1-based spreadsheet row
+  slide?: number;
+  slideTitle?: string;
+  section?: string;    // Closest Markdown heading above the passage
+}
+
+export interface Passage {
+  id: string;    // Derived from the passage's text, so it stays the same while the text does
+  start: number; // Character offsets of the passage in the document's content
+  end: number;
+  anchor?: PassageAnchor;
+}
+
+const ANCHOR_FIELDS = ['page', 'sheet', 'row', 'slide', 'slideTitle'] as const;
+
+// Markdown headings, e.g. "## Results"
+const HEADING_PATTERN = /^#{1,6}[ \t]+(.+?)[ \t#]*$/gm;
+
+function passageId(text: string, taken: Set<string>): string {
+  const hash = createHash('sha1').update(text).digest('hex').slice(0, 12);
+  // Repeated text within a document, such as a page footer, gets numbered
+  let id = hash;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${hash}-${n}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+function anchorAt(offset: number, segments: ContentSegment[] | undefined, headings: { offset: number; title: string }[]): PassageAnchor | undefined {
+  const anchor: PassageAnchor = {};
+  const location = findSegment(segments, offset)?.location;
+  // Only the position is kept; cell values and headers stay with the segment
+  for (const field of ANCHOR_FIELDS) {
+    if (location?.[field] !== undefined) {
+      Object.assign(anchor, { [field]: location[field] });
+    }
+  }
+  const heading = headings.filter(candidate => candidate.offset <= offset).pop();
+  if (heading) {
+    anchor.section = heading.title;
+  }
+  return Object.keys(anchor).length > 0 ? anchor : undefined;
+}
+
+// Where a new page, slide, sheet or Markdown section begins
+function sectionStarts(content: string, segments: ContentSegment[] | undefined, headings: { offset: number }[]): number[] {
+  const starts = new Set(headings.map(heading => heading.offset));
+  let previous: string | undefined;
+  for (const segment of segments || []) {
+    const { page, slide, sheet } = segment.location;
+    const key = page !== undefined ? `page:${page}` : slide !== undefined ? `slide:${slide}` : sheet !== undefined ? `sheet:${sheet}` : undefined;
+    if (key !== previous) {
+      starts.add(segment.start);
+      previous = key;
+    }
+  }
+  starts.delete(0);
+  return [0, ...Array.from(starts).filter(start => start < content.length).sort((a, b) => a - b), content.length];
+}
+
+/**
+ * Split a document's content into the overlapping passages it is searched,
+ * previewed and embedded by. Done once when the file is indexed. Passages
+ * do not cross pages, slides, sheets or Markdown sections, so each one has a
+ * single anchor.
+ */
+export function splitPassages(content: string, segments?: ContentSegment[]): Passage[] {
+  const headings = Array.from(content.matchAll(HEADING_PATTERN), match => ({ offset: match.index ?? 0, title: match[1] }));
+  const starts = sectionStarts(content, segments, headings);
+  const taken = new Set<string>();
+  const passages: Passage[] = [];
+  // The whole document is cut, so snippets and passage searches reach its end
+  for (let i = 0; i < starts.length - 1; i++) {
+    const chunks = chunkText(content.substring(starts[i], starts[i + 1]), { maxChunks: Infinity });
+    for (const chunk of chunks) {
+      const passage: Passage = { id: passageId(chunk.text, taken), start: starts[i] + chunk.start, end: starts[i] + chunk.end };
+      const anchor = anchorAt(passage.start, segments, headings);
+      if (anchor) {
+        passage.anchor = anchor;
+      }
+      passages.push(passage);
+    }
+  }
+  return passages;
+}
+
+/**
+ * Share of a query's words, phrases and OR groups a passage contains, in any
+ * form of the words. A term of several words, such as "annual report" or
+ * q3-report, has to appear as written.
+ */
+export function passageCoverage(text: string, query: ParsedQuery, language?: Language): number {
+  if (query.required.length === 0) {
+    return 0;
+  }
+  return query.required.filter(group => group.some(term => findWords(text, term.text, language) >= 0)).length / query.required.length;
+}
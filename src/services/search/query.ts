@@ -0,0 +1,351 @@
+import os from 'os';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { foldDiacritics, isStopWord } from './analysis.js';
+import type { Language } from './analysis.js';
+import { METADATA_FILTER_FIELDS } from './metadata.js';
+import type { MetadataFilter, MetadataFilterField } from './metadata.js';
+
+export const QUERY_FILTER_FIELDS = ['name', 'path', 'ext', 'modified', 'size', 'in'] as const;
+
+export type QueryFilterField = typeof QUERY_FILTER_FIELDS[number];
+
+export interface QueryTerm {
+  text: string;    // Lower-cased
+  phrase: boolean; // Quoted in the query, so its words must appear together
+}
+
+// Inclusive lower and exclusive upper bound; either may be open
+export interface ValueRange {
+  min?: number;
+  max?: number;
+}
+
+export interface ParsedQuery {
+  text: string;            // The required terms and phrases as plain text, for ranking
+  required: QueryTerm[][]; // Every group must match; a group of terms joined by OR matches when one does
+  excluded: QueryTerm[];   // Files matching any of these are left out
+  name: string[];          // Filename contains each of these, or matches it as a glob; folded, see foldDiacritics
+  path: string[];          // Full path contains each of these; folded
+  ext: string[];           // Extension is one of these, without the dot
+  in: string[];            // Inside one of these directories or roots
+  modified?: ValueRange;   // Modification time in ms
+  size?: ValueRange;       // Size in bytes
+  metadata: MetadataFilter;
+}
+
+// The file properties the query filters look at
+// A filter in a query that cannot be read, such as size:>big
+export class QuerySyntaxError extends SyntaxError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+export interface FilterableFile {
+  path: string;
+  filename: string;
+  lastModified: number;
+  size: number;
+  root?: string;
+  archive?: string;
+}
+
+const FIELDS = new Set<string>([...QUERY_FILTER_FIELDS, ...METADATA_FILTER_FIELDS]);
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4
+};
+
+interface QueryToken {
+  kind: 'term' | 'or' | 'field';
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+  field?: string;
+}
+
+function readQuoted(query: string, start: number): { text: string; end: number } {
+  // An unterminated quote runs to the end, as it does while the user types
+  const close = query.indexOf('"', start + 1);
+  const end = close === -1 ? query.length : close + 1;
+  return { text: query.slice(start + 1, close === -1 ? query.length : close), end };
+}
+
+function readBare(query: string, start: number): { text: string; end: number } {
+  let end = start;
+  while (end < query.length && !/\s/.test(query[end])) {
+    end++;
+  }
+  return { text: query.slice(start, end), end };
+}
+
+function lexQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    const start = negated ? i + 1 : i;
+
+    const fieldMatch = /^([a-z]+):/i.exec(query.slice(start));
+    if (fieldMatch && FIELDS.has(fieldMatch[1].toLowerCase())) {
+      const valueStart = start + fieldMatch[0].length;
+      const value = query[valueStart] === '"' ? readQuoted(query, valueStart) : readBare(query, valueStart);
+      tokens.push({ kind: 'field', field: fieldMatch[1].toLowerCase(), text: value.text.trim(), phrase: false, negated });
+      i = value.end;
+      continue;
+    }
+
+    if (query[start] === '"') {
+      const value = readQuoted(query, start);
+      tokens.push({ kind: 'term', text: value.text.trim(), phrase: true, negated });
+      i = value.end;
+      continue;
+    }
+
+    const value = readBare(query, start);
+    if (value.text === 'OR' && !negated) {
+      tokens.push({ kind: 'or', text: value.text, phrase: false, negated });
+    } else {
+      tokens.push({ kind: 'term', text: value.text, phrase: false, negated });
+    }
+    i = value.end;
+  }
+  return tokens;
+}
+
+// Start and end of the local-time period a date such as 2024, 2024-03 or 2024-03-15 covers
+function parsePeriod(value: string): { start: number; end: number } | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) - 1 : null;
+  const day = match[3] ? parseInt(match[3], 10) : null;
+  if (month !== null && (month < 0 || month > 11)) {
+    return null;
+  }
+  if (month === null) {
+    return { start: new Date(year, 0, 1).getTime(), end: new Date(year + 1, 0, 1).getTime() };
+  }
+  if (day === null) {
+    return { start: new Date(year, month, 1).getTime(), end: new Date(year, month + 1, 1).getTime() };
+  }
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month) {
+    return null; // e.g. February 30th
+  }
+  return { start: start.getTime(), end: new Date(year, month, day + 1).getTime() };
+}
+
+// Sizes are whole bytes, so a size such as 5MB or 1.5kb covers just the byte
+// it names: >5MB starts one byte above 5MB and 1MB..10MB includes 10MB
+function parseSizeBucket(value: string): { start: number; end: number } | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+  const start = parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+  return { start, end: Math.floor(start) + 1 };
+}
+
+/**
+ * Turn a comparison such as >2024-01-01, <=5MB, 2024-03 or 1MB..10MB into a
+ * range. A bare value or either end of a `..` range covers the whole period
+ * it names, or the exact size.
+ */
+function parseRange(value: string, parseBucket: (value: string) => { start: number; end: number } | null): ValueRange | null {
+  const rangeMatch = /^(.+)\.\.(.+)$/.exec(value);
+  if (rangeMatch) {
+    const from = parseBucket(rangeMatch[1]);
+    const to = parseBucket(rangeMatch[2]);
+    return from && to ? { min: from.start, max: to.end } : null;
+  }
+
+  const comparison = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  const bucket = comparison && parseBucket(comparison[2]);
+  if (!comparison || !bucket) {
+    return null;
+  }
+  switch (comparison[1]) {
+    case '>':
+      return { min: bucket.end };
+    case '>=':
+      return { min: bucket.start };
+    case '<':
+      return { max: bucket.start };
+    case '<=':
+      return { max: bucket.end };
+    default:
+      return { min: bucket.start, max: bucket.end };
+  }
+}
+
+// Narrow a range by another one, for a query with two filters on the same field
+function intersectRanges(a: ValueRange | undefined, b: ValueRange): ValueRange {
+  if (!a) {
+    return b;
+  }
+  return {
+    min: a.min === undefined ? b.min : b.min === undefined ? a.min : Math.max(a.min, b.min),
+    max: a.max === undefined ? b.max : b.max === undefined ? a.max : Math.min(a.max, b.max)
+  };
+}
+
+function applyField(parsed: ParsedQuery, field: string, value: string): void {
+  switch (field) {
+    case 'name':
+      parsed.name.push(foldDiacritics(value));
+      return;
+    case 'path':
+      parsed.path.push(foldDiacritics(value));
+      return;
+    case 'ext':
+      parsed.ext.push(...value.toLowerCase().split(',').map(ext => ext.trim().replace(/^\./, '')).filter(Boolean));
+      return;
+    case 'in':
+      parsed.in.push(value);
+      return;
+    case 'modified': {
+      const range = parseRange(value, parsePeriod);
+      if (!range) {
+        throw new QuerySyntaxError(`Invalid modified filter "${value}", use a date such as >2024-01-01, 2024-03 or 2024-01..2024-06`);
+      }
+      parsed.modified = intersectRanges(parsed.modified, range);
+      return;
+    }
+    case 'size': {
+      const range = parseRange(value, parseSizeBucket);
+      if (!range) {
+        throw new QuerySyntaxError(`Invalid size filter "${value}", use a size such as >5MB, <100KB or 1MB..10MB`);
+      }
+      parsed.size = intersectRanges(parsed.size, range);
+      return;
+    }
+    default:
+      parsed.metadata[field as MetadataFilterField] = value;
+  }
+}
+
+/**
+ * Parse a search query. Words are all required, `a OR b` requires either,
+ * "quoted phrases" must appear as written and `-word` or `-"phrase"` leaves
+ * out files containing it. Field filters narrow the results:
+ *
+ *   name:invoice  path:clients  ext:pdf,docx  in:~/Documents  in:Downloads
+ *   modified:>2024-01-01  modified:2024-03  size:>5MB  size:1MB..10MB
+ *   author:jane  title:"annual report"  date:2024-03
+ *
+ * Filter values with spaces can be quoted. Throws a QuerySyntaxError for a
+ * modified or size filter that cannot be read; empty filters, as typed so
+ * far, are ignored.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { text: '', required: [], excluded: [], name: [], path: [], ext: [], in: [], metadata: {} };
+  let joinNext = false;
+
+  for (const token of lexQuery(query)) {
+    if (token.kind === 'or') {
+      joinNext = parsed.required.length > 0;
+      continue;
+    }
+    if (token.kind === 'field') {
+      if (token.negated) {
+        throw new QuerySyntaxError(`Filters cannot be excluded, remove the "-" before ${token.field}:`);
+      }
+      if (token.text) {
+        applyField(parsed, token.field!, token.text);
+      }
+      joinNext = false;
+      continue;
+    }
+
+    // Stray punctuation such as a lone "-" has nothing to match
+    if (!/[\p{L}\p{N}]/u.test(token.text)) {
+      continue;
+    }
+    const term: QueryTerm = { text: token.text.toLowerCase(), phrase: token.phrase };
+    if (token.negated) {
+      parsed.excluded.push(term);
+    } else if (joinNext) {
+      parsed.required[parsed.required.length - 1].push(term);
+    } else {
+      parsed.required.push([term]);
+    }
+    joinNext = false;
+  }
+
+  parsed.text = parsed.required.flat().map(term => term.text).join(' ');
+  return parsed;
+}
+
+/**
+ * Drop required words that are stop words, such as "the" or "und", which
+ * documents are not indexed under: those of a document's language, or
+ * without one, those of any language. Phrases keep all their words. A query
+ * of nothing but stop words keeps them. The query text is left as typed, for
+ * matching filenames.
+ */
+export function withoutStopWordTerms(parsed: ParsedQuery, language?: Language): ParsedQuery {
+  const isStopGroup = (group: QueryTerm[]) => group.every(term => !term.phrase && isStopWord(term.text, language));
+  const required = parsed.required.filter(group => !isStopGroup(group));
+  return required.length > 0 && required.length < parsed.required.length ? { ...parsed, required } : parsed;
+}
+
+export function hasQueryFilters(parsed: ParsedQuery): boolean {
+  return parsed.name.length > 0 || parsed.path.length > 0 || parsed.ext.length > 0 || parsed.in.length > 0 ||
+    parsed.modified !== undefined || parsed.size !== undefined;
+}
+
+function inRange(value: number, range: ValueRange | undefined): boolean {
+  return !range || ((range.min === undefined || value >= range.min) && (range.max === undefined || value < range.max));
+}
+
+function matchesName(filename: string, pattern: string): boolean {
+  const folded = foldDiacritics(filename);
+  return /[*?[]/.test(pattern)
+    ? minimatch(folded, pattern, { nocase: true, dot: true })
+    : folded.includes(pattern);
+}
+
+// `in:` takes a directory (absolute or under ~) or the name of an index root
+function isInside(file: FilterableFile, location: string): boolean {
+  if (location.startsWith('~') || path.isAbsolute(location)) {
+    const directory = path.resolve(location.replace(/^~(?=$|[\\/])/, os.homedir()));
+    // Archive members start with their archive's path, so they are covered too
+    return file.path.startsWith(directory.endsWith(path.sep) ? directory : directory + path.sep);
+  }
+  return file.root?.toLowerCase() === location.toLowerCase();
+}
+
+/**
+ * Whether a file passes the name, path, extension, location, date and size
+ * filters of a query. Metadata filters are checked separately.
+ */
+export function matchesQueryFilters(file: FilterableFile, parsed: ParsedQuery): boolean {
+  if (!parsed.name.every(pattern => matchesName(file.filename, pattern))) {
+    return false;
+  }
+  const foldedPath = foldDiacritics(file.path);
+  if (!parsed.path.every(part => foldedPath.includes(part))) {
+    return false;
+  }
+  if (parsed.ext.length > 0 && !parsed.ext.includes(path.extname(file.filename).toLowerCase().slice(1))) {
+    return false;
+  }
+  if (parsed.in.length > 0 && !parsed.in.some(location => isInside(file, location))) {
+    return false;
+  }
+  return inRange(file.lastModified, parsed.modified) && inRange(file.size, parsed.size);
+}
@@ -0,0 +1,114 @@
+import type { ContentMatch } from './inverted-index.js';
+
+// Share of the score each signal can contribute; they add up to 1
+export const RANKING_WEIGHTS = {
+  filename: 0.45,
+  content: 0.3,
+  path: 0.1,
+  metadata: 0.1,
+  recency: 0.05
+} as const;
+
+export type RankingSignal = keyof typeof RANKING_WEIGHTS;
+
+// How strongly a file matches on each signal, from 0 to 1
+export type RankingSignals = Record<RankingSignal, number>;
+
+// What each signal added to a result's score; the parts add up to the score.
+// Hybrid searches add what the passage similarity contributed.
+export type ScoreBreakdown = Record<RankingSignal, number> & { semantic?: number };
+
+// Share of a hybrid score that comes from semantic similarity
+export const SEMANTIC_WEIGHT = 0.5;
+
+// Cosine similarities of unrelated MiniLM passages sit around 0 to 0.2, so
+// similarity is rescaled from this floor; files below it do not match on meaning
+export const MIN_SEMANTIC_SIMILARITY = 0.3;
+
+// Recency halves every this many days, so a year-old file keeps a quarter of it
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Combined scores stay below an exact filename match, which scores 1.0
+const MAX_COMBINED_SCORE = 0.99;
+
+/**
+ * How well a filename matches: an exact name is 1, a fuzzy match follows its
+ * Fuse score (0 is perfect), and a name containing some of the query words
+ * follows the share of words it contains.
+ */
+export function filenameSignal(options: { exact: boolean; fuzzyScore?: number; coverage: number }): number {
+  if (options.exact) {
+    return 1;
+  }
+  const fuzzy = options.fuzzyScore !== undefined ? 1 - options.fuzzyScore : 0;
+  return Math.max(fuzzy, options.coverage * 0.8);
+}
+
+/**
+ * How well the content matches: the share of query words it contains,
+ * weighted by BM25 relevance, with a bonus for the words appearing as a phrase.
+ */
+export function contentSignal(match: ContentMatch | undefined, coverage: number): number {
+  if (!match || coverage === 0) {
+    return 0;
+  }
+  // Saturate BM25 into 0..1
+  const relevance = match.score / (match.score + 1);
+  const phraseBonus = match.phrase && match.termCount > 1 ? 0.2 : 0;
+  return Math.min(1, coverage * (0.6 + 0.4 * relevance) + phraseBonus);
+}
+
+export function recencySignal(lastModified: number, now: number = Date.now()): number {
+  const ageDays = Math.max(0, now - lastModified) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Weigh the signals into one score. Recency only breaks ties between
+ * otherwise similar matches; it never makes a file match on its own.
+ */
+export function combineSignals(signals: RankingSignals): { score: number; breakdown: ScoreBreakdown } {
+  const breakdown = {} as ScoreBreakdown;
+  let score = 0;
+  for (const signal of Object.keys(RANKING_WEIGHTS) as RankingSignal[]) {
+    breakdown[signal] = Math.max(0, Math.min(1, signals[signal])) * RANKING_WEIGHTS[signal];
+    score += breakdown[signal];
+  }
+  return { score: Math.min(MAX_COMBINED_SCORE, score), breakdown };
+}
+
+/**
+ * How close a file's best passage is in meaning, from 0 at
+ * MIN_SEMANTIC_SIMILARITY to 1 for the same meaning.
+ */
+export function semanticSignal(similarity: number): number {
+  return Math.max(0, Math.min(1, (similarity - MIN_SEMANTIC_SIMILARITY) / (1 - MIN_SEMANTIC_SIMILARITY)));
+}
+
+/**
+ * Mix a keyword score with semantic similarity. Files without a keyword
+ * match only score on their meaning, so they rank below files matching both.
+ */
+export function blendSemantic(keyword: { score: number; breakdown: ScoreBreakdown } | null, similarity: number): { score: number; breakdown: ScoreBreakdown } {
+  const semantic = semanticSignal(similarity) * SEMANTIC_WEIGHT;
+  const breakdown = {} as ScoreBreakdown;
+  let score = semantic;
+  for (const signal of Object.keys(RANKING_WEIGHTS) as RankingSignal[]) {
+    breakdown[signal] = (keyword?.breakdown[signal] ?? 0) * (1 - SEMANTIC_WEIGHT);
+  }
+  if (keyword) {
+    score += keyword.score * (1 - SEMANTIC_WEIGHT);
+  }
+  breakdown.semantic = semantic;
+  return { score: Math.min(MAX_COMBINED_SCORE, score), breakdown };
+}
+
+/**
+ * The signal that contributed most to a score, not counting recency.
+ */
+export function strongestSignal(breakdown: ScoreBreakdown): Exclude<RankingSignal, 'recency'> | 'semantic' {
+  const signals: (Exclude<RankingSignal, 'recency'> | 'semantic')[] = ['filename', 'content', 'path', 'metadata', 'semantic'];
+  return signals.reduce((best, signal) => (breakdown[signal] ?? 0) > (breakdown[best] ?? 0) ? signal : best);
+}
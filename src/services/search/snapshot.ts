@@ -0,0 +1,64 @@
+import path from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { getDataDir } from '../config/index.js';
+import type { SerializedVectors } from './vector-index.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Bump when the entry layout changes; older snapshots are then ignored
+export const SNAPSHOT_VERSION = 3;
+
+export interface IndexSnapshot<Entry> {
+  version: number;
+  savedAt: number;
+  extractors: string[]; // Extractors registered when the entries were extracted
+  entries: Entry[];
+  filenameIndex?: unknown; // Serialized Fuse index over the entry filenames, in entry order
+  vectors?: SerializedVectors; // Passage embeddings for semantic search, once computed
+}
+
+export function getSnapshotPath(): string {
+  return path.join(getDataDir(), 'index-snapshot.json.gz');
+}
+
+/**
+ * Read a snapshot written by writeSnapshot. A missing, unreadable or outdated
+ * snapshot gives null so the caller falls back to a full build.
+ */
+export async function readSnapshot<Entry>(snapshotPath: string): Promise<IndexSnapshot<Entry> | null> {
+  let compressed: Buffer;
+  try {
+    compressed = await readFile(snapshotPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Could not read index snapshot ${snapshotPath}:`, error);
+    }
+    return null;
+  }
+
+  try {
+    const snapshot = JSON.parse((await gunzipAsync(compressed)).toString('utf-8')) as IndexSnapshot<Entry>;
+    if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.entries)) {
+      console.log(`Ignoring index snapshot with version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`);
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn(`Ignoring corrupt index snapshot ${snapshotPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot next to the old one and swap it in, so a crash mid-write
+ * never leaves a truncated snapshot behind.
+ */
+export async function writeSnapshot<Entry>(snapshotPath: string, snapshot: IndexSnapshot<Entry>): Promise<void> {
+  await mkdir(path.dirname(snapshotPath), { recursive: true });
+  const temporaryPath = `${snapshotPath}.${process.pid}.tmp`;
+  await writeFile(temporaryPath, await gzipAsync(JSON.stringify(snapshot)), { mode: 0o600 });
+  await rename(temporaryPath, snapshotPath);
+}
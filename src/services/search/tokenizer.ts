@@ -0,0 +1,21 @@
+export interface Token {
+  term: string;
+  position: number; // Index of the token in the text, for phrase matching
+  offset: number;   // Character offset of the token in the text
+}
+
+// Runs of letters and digits, so "Q3-report.pdf" gives q3, report, pdf
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.push({ term: match[0].toLowerCase(), position: position++, offset: match.index ?? 0 });
+  }
+  return tokens;
+}
+
+export function tokenizeTerms(text: string): string[] {
+  return tokenize(text).map(token => token.term);
+}
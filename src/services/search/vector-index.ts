@@ -0,0 +1,122 @@
+export interface EmbeddedChunk {
+  passageId?: string; // The document passage embedded; none for the document's name
+  vector: Float32Array;
+}
+
+export interface VectorMatch {
+  similarity: number;   // Cosine similarity of the document's closest chunk, -1 to 1
+  chunk: EmbeddedChunk; // That chunk
+}
+
+// How vectors are stored in a snapshot: base64 of the Float32 bytes
+export interface SerializedVectors {
+  model: string;
+  documents: Record<string, { passageId?: string; vector: string }[]>;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Chunk embeddings per document, searched by brute force. Vectors are
+ * normalised, so a dot product is their cosine similarity. A few thousand
+ * documents of a few dozen chunks take milliseconds to scan.
+ */
+export class VectorIndex {
+  private documents = new Map<string, EmbeddedChunk[]>();
+
+  /**
+   * @param model The embedding model the vectors come from; vectors of
+   *   different models cannot be compared.
+   */
+  constructor(public readonly model: string) {}
+
+  public get size(): number {
+    return this.documents.size;
+  }
+
+  public has(docId: string): boolean {
+    return this.documents.has(docId);
+  }
+
+  public get(docId: string): EmbeddedChunk[] | undefined {
+    return this.documents.get(docId);
+  }
+
+  public set(docId: string, chunks: EmbeddedChunk[]): void {
+    this.documents.set(docId, chunks);
+  }
+
+  public remove(docId: string): boolean {
+    return this.documents.delete(docId);
+  }
+
+  public rename(docId: string, newDocId: string): void {
+    const chunks = this.documents.get(docId);
+    if (chunks) {
+      this.documents.delete(docId);
+      this.documents.set(newDocId, chunks);
+    }
+  }
+
+  public docIds(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * How close each chunk of a document is to a query vector.
+   */
+  public similarities(docId: string, vector: Float32Array): { similarity: number; chunk: EmbeddedChunk }[] {
+    return (this.documents.get(docId) || []).map(chunk => ({ similarity: dot(vector, chunk.vector), chunk }));
+  }
+
+  /**
+   * The closest chunk of every document to a query vector.
+   */
+  public search(vector: Float32Array): Map<string, VectorMatch> {
+    const matches = new Map<string, VectorMatch>();
+    for (const [docId, chunks] of this.documents) {
+      let best: VectorMatch | null = null;
+      for (const chunk of chunks) {
+        const similarity = dot(vector, chunk.vector);
+        if (!best || similarity > best.similarity) {
+          best = { similarity, chunk };
+        }
+      }
+      if (best) {
+        matches.set(docId, best);
+      }
+    }
+    return matches;
+  }
+
+  public toJSON(): SerializedVectors {
+    const documents: SerializedVectors['documents'] = {};
+    for (const [docId, chunks] of this.documents) {
+      documents[docId] = chunks.map(chunk => ({
+        passageId: chunk.passageId,
+        vector: Buffer.from(chunk.vector.buffer, chunk.vector.byteOffset, chunk.vector.byteLength).toString('base64')
+      }));
+    }
+    return { model: this.model, documents };
+  }
+
+  public static fromJSON(serialized: SerializedVectors): VectorIndex {
+    const index = new VectorIndex(serialized.model);
+    for (const [docId, chunks] of Object.entries(serialized.documents)) {
+      index.set(docId, chunks.map(chunk => {
+        // Copy into an aligned buffer; Buffer.from may hand out a shared, unaligned slice
+        const bytes = Buffer.from(chunk.vector, 'base64');
+        const vector = new Float32Array(bytes.byteLength / 4);
+        new Uint8Array(vector.buffer).set(bytes);
+        return chunk.passageId ? { passageId: chunk.passageId, vector } : { vector };
+      }));
+    }
+    return index;
+  }
+}
@@ -81,4 +81,12 @@ declare module 'textract' {
   ): void;
 
   export { fromFileWithPath, fromBufferWithMime };
-} 
\ No newline at end of file
+} 
+declare module 'snowball-stemmers' {
+  interface Stemmer {
+    stem(word: string): string;
+  }
+
+  export function newStemmer(algorithm: string): Stemmer;
+  export function algorithms(): string[];
+}
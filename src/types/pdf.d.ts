@@ -14,6 +14,7 @@ declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
   interface PDFDocumentProxy {
     numPages: number;
     getPage(pageNum: number): Promise<PDFPageProxy>;
+    getMetadata(): Promise<{ info?: Record<string, unknown>; metadata?: unknown }>;
   }
 
   interface PDFDocumentLoadingTask {